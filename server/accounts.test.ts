@@ -0,0 +1,104 @@
+/** @jest-environment node */
+import { EmailAccountService } from './accounts';
+import { AuthService } from './auth';
+import { HttpError } from './http';
+import { Mail } from './mailer';
+import { RecordStore } from './routes/storage';
+
+function createAccounts() {
+  const clock = { time: Date.parse('2024-01-01T00:00:00.000Z') };
+  const mails: Mail[] = [];
+  const auth = new AuthService(['localhost:3000'], () => clock.time);
+  const accounts = new EmailAccountService(
+    new RecordStore(),
+    { send: async mail => { mails.push(mail); } },
+    auth,
+    'http://localhost:3000',
+    () => clock.time
+  );
+  // The token in the link of the latest mail
+  const lastLink = (name: 'verify' | 'reset') => new RegExp(`${name}=([0-9a-f]+)`).exec(mails[mails.length - 1].text)![1];
+  return { accounts, auth, clock, lastLink };
+}
+
+async function createVerifiedAccount() {
+  const { accounts, lastLink } = createAccounts();
+  await accounts.register('player@example.com', 'correct horse');
+  await accounts.verifyEmail(lastLink('verify'));
+  return accounts;
+}
+
+async function statusOf(attempt: Promise<unknown>): Promise<number> {
+  try {
+    await attempt;
+    return 200;
+  } catch (error) {
+    return error instanceof HttpError ? error.status : 500;
+  }
+}
+
+test('wrong passwords tried at the same time all count towards the lockout', async () => {
+  const accounts = await createVerifiedAccount();
+
+  const guesses = Array.from({ length: 8 }, (_, i) => statusOf(accounts.login('player@example.com', `guess ${i}`)));
+  const statuses = await Promise.all(guesses);
+  // The fifth failure locks the account; guesses still in flight are refused
+  expect(statuses.filter(status => status === 401)).toHaveLength(5);
+  expect(statuses.filter(status => status === 429)).toHaveLength(3);
+
+  expect(await statusOf(accounts.login('player@example.com', 'correct horse'))).toBe(429);
+});
+
+test('the right password signs in and clears earlier failures', async () => {
+  const accounts = await createVerifiedAccount();
+
+  expect(await statusOf(accounts.login('player@example.com', 'wrong'))).toBe(401);
+  const session = await accounts.login('Player@example.com', 'correct horse');
+  expect(session.address).toBe('email:player@example.com');
+});
+
+test('verification links work once and expire', async () => {
+  const { accounts, clock, lastLink } = createAccounts();
+  await accounts.register('player@example.com', 'correct horse');
+  const token = lastLink('verify');
+  expect(await accounts.verifyEmail(token)).toBe('player@example.com');
+  expect(await statusOf(accounts.verifyEmail(token))).toBe(400);
+
+  await accounts.register('late@example.com', 'correct horse');
+  clock.time += 24 * 60 * 60 * 1000;
+  await expect(accounts.verifyEmail(lastLink('verify'))).rejects.toThrow('expired');
+  expect(await statusOf(accounts.login('late@example.com', 'correct horse'))).toBe(403);
+});
+
+test('unverified accounts cannot sign in and are mailed a new link', async () => {
+  const { accounts, lastLink } = createAccounts();
+  await accounts.register('player@example.com', 'correct horse');
+  const first = lastLink('verify');
+
+  expect(await statusOf(accounts.login('player@example.com', 'correct horse'))).toBe(403);
+  const second = lastLink('verify');
+  expect(second).not.toBe(first);
+  // Only the newest link works
+  expect(await statusOf(accounts.verifyEmail(first))).toBe(400);
+  await accounts.verifyEmail(second);
+  expect(await statusOf(accounts.login('player@example.com', 'correct horse'))).toBe(200);
+});
+
+test('reset links work once, expire, and end earlier sessions', async () => {
+  const { accounts, auth, clock, lastLink } = createAccounts();
+  await accounts.register('player@example.com', 'correct horse');
+  await accounts.verifyEmail(lastLink('verify'));
+  const session = await accounts.login('player@example.com', 'correct horse');
+
+  await accounts.requestPasswordReset('player@example.com');
+  const token = lastLink('reset');
+  await accounts.resetPassword(token, 'battery staple');
+  expect(auth.authenticate(session.token)).toBeNull();
+  expect(await statusOf(accounts.resetPassword(token, 'another password'))).toBe(400);
+  expect(await statusOf(accounts.login('player@example.com', 'correct horse'))).toBe(401);
+  expect(await statusOf(accounts.login('player@example.com', 'battery staple'))).toBe(200);
+
+  await accounts.requestPasswordReset('player@example.com');
+  clock.time += 60 * 60 * 1000;
+  await expect(accounts.resetPassword(lastLink('reset'), 'another password')).rejects.toThrow('expired');
+});
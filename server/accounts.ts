@@ -0,0 +1,238 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { AuthService, AuthSession } from './auth';
+import { HttpError } from './http';
+import { Mailer } from './mailer';
+import { RecordStore } from './routes/storage';
+
+// Email and password accounts. Passwords are kept as salted scrypt hashes,
+// addresses are confirmed by a link sent through the mailer before the
+// account can sign in, and repeated wrong passwords lock the account for a
+// while. A successful login starts the same kind of auth session as a
+// wallet sign-in, for the login id "email:<address>".
+
+const ACCOUNTS = 'emailAccounts';
+const TOKENS = 'emailTokens';  // sha256(token) -> EmailToken; the tokens themselves are only mailed
+
+export const MIN_PASSWORD_LENGTH = 8;
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const VERIFY_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const SCRYPT = { N: 16384, r: 8, p: 1, keyLength: 64 };
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number, options: object) => Promise<Buffer>;
+
+interface EmailAccount {
+  email: string;
+  passwordHash: string;  // "scrypt$N$r$p$salt$hash", hex encoded
+  verified: boolean;
+  failedLogins: number;
+  lockedUntil: number;
+  createdAt: number;
+}
+
+interface EmailToken {
+  key: string;
+  email: string;
+  purpose: 'verify' | 'reset';
+  expiresAt: number;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function emailLoginId(email: string): string {
+  return `email:${normalizeEmail(email)}`;
+}
+
+export class EmailAccountService {
+  // `appUrl` is where the links in account emails point, e.g. "http://localhost:3000"
+  constructor(
+    private readonly store: RecordStore,
+    private readonly mailer: Mailer,
+    private readonly auth: AuthService,
+    private readonly appUrl: string,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  // Create an account and mail a verification link. Registering an address
+  // that already has an account mails its owner instead, so the response
+  // doesn't reveal which addresses are taken.
+  async register(email: string, password: string): Promise<void> {
+    const address = validateEmail(email);
+    validatePassword(password);
+
+    if (this.getAccount(address)) {
+      await this.mailer.send({
+        to: address,
+        subject: 'Your Treasure Hunt account',
+        text: `Someone tried to register this address, but it already has an account.\n`
+          + `If you forgot your password, reset it here: ${this.appUrl}/?forgot=1`,
+      });
+      return;
+    }
+
+    this.store.put(ACCOUNTS, address, {
+      email: address,
+      passwordHash: await hashPassword(password),
+      verified: false,
+      failedLogins: 0,
+      lockedUntil: 0,
+      createdAt: this.now(),
+    } as EmailAccount);
+    await this.sendVerification(address);
+  }
+
+  async verifyEmail(token: string): Promise<string> {
+    const email = this.useToken(token, 'verify');
+    const account = this.getAccount(email);
+    if (!account) throw new HttpError(404, 'The account no longer exists');
+    this.store.put(ACCOUNTS, email, { ...account, verified: true });
+    return email;
+  }
+
+  async login(email: string, password: string): Promise<AuthSession> {
+    const address = normalizeEmail(email);
+    const checked = this.getAccount(address);
+    this.checkNotLocked(checked);
+
+    // Hash even for unknown addresses so timing doesn't tell them apart
+    const matches = await checkPassword(password, checked ? checked.passwordHash : DUMMY_HASH);
+
+    // Other attempts may have finished while hashing: count this one on top
+    // of theirs, and honour a lockout they caused
+    const account = this.getAccount(address);
+    if (!account || !checked) throw new HttpError(401, 'Wrong email or password');
+    this.checkNotLocked(account);
+    if (!matches || account.passwordHash !== checked.passwordHash) {
+      const failedLogins = account.failedLogins + 1;
+      const locked = failedLogins >= MAX_FAILED_LOGINS;
+      this.store.put(ACCOUNTS, address, {
+        ...account,
+        failedLogins: locked ? 0 : failedLogins,
+        lockedUntil: locked ? this.now() + LOCKOUT_MS : account.lockedUntil,
+      });
+      throw new HttpError(401, 'Wrong email or password');
+    }
+
+    if (account.failedLogins > 0) this.store.put(ACCOUNTS, address, { ...account, failedLogins: 0 });
+    if (!account.verified) {
+      await this.sendVerification(address);
+      throw new HttpError(403, 'Verify your email first - we sent you a new link');
+    }
+    return this.auth.startSession(emailLoginId(address));
+  }
+
+  // Mail a reset link if the address has an account. Callers get the same
+  // answer either way.
+  async requestPasswordReset(email: string): Promise<void> {
+    const address = normalizeEmail(email);
+    if (!this.getAccount(address)) return;
+    const token = this.issueToken(address, 'reset', RESET_TOKEN_TTL_MS);
+    await this.mailer.send({
+      to: address,
+      subject: 'Reset your Treasure Hunt password',
+      text: `Choose a new password here: ${this.appUrl}/?reset=${token}\n`
+        + `The link works once and expires in an hour. If you didn't ask for it, ignore this email.`,
+    });
+  }
+
+  // Set a new password from a reset link. The link proves the mailbox, so
+  // the account counts as verified and is unlocked; earlier logins end.
+  async resetPassword(token: string, password: string): Promise<string> {
+    validatePassword(password);
+    const email = this.useToken(token, 'reset');
+    const account = this.getAccount(email);
+    if (!account) throw new HttpError(404, 'The account no longer exists');
+    this.store.put(ACCOUNTS, email, {
+      ...account,
+      passwordHash: await hashPassword(password),
+      verified: true,
+      failedLogins: 0,
+      lockedUntil: 0,
+    });
+    this.auth.revoke(emailLoginId(email));
+    return email;
+  }
+
+  private checkNotLocked(account: EmailAccount | undefined): void {
+    const time = this.now();
+    if (account && account.lockedUntil > time) {
+      const minutes = Math.ceil((account.lockedUntil - time) / 60000);
+      throw new HttpError(429, `Too many failed sign-ins - try again in ${minutes} minute(s)`, { retryAt: account.lockedUntil });
+    }
+  }
+
+  private async sendVerification(email: string): Promise<void> {
+    const token = this.issueToken(email, 'verify', VERIFY_TOKEN_TTL_MS);
+    await this.mailer.send({
+      to: email,
+      subject: 'Confirm your Treasure Hunt account',
+      text: `Confirm your email address to start playing: ${this.appUrl}/?verify=${token}\n`
+        + `The link expires in 24 hours.`,
+    });
+  }
+
+  private getAccount(email: string): EmailAccount | undefined {
+    return this.store.get(ACCOUNTS, email) as EmailAccount | undefined;
+  }
+
+  private issueToken(email: string, purpose: EmailToken['purpose'], ttl: number): string {
+    const time = this.now();
+    // Only the newest link of each kind works; expired ones are dropped too
+    (this.store.getAll(TOKENS) as EmailToken[]).forEach(record => {
+      if (record.expiresAt <= time || (record.email === email && record.purpose === purpose)) {
+        this.store.remove(TOKENS, record.key);
+      }
+    });
+    const token = randomBytes(32).toString('hex');
+    const key = tokenKey(token);
+    this.store.put(TOKENS, key, { key, email, purpose, expiresAt: time + ttl } as EmailToken);
+    return token;
+  }
+
+  // Tokens work once
+  private useToken(token: string, purpose: EmailToken['purpose']): string {
+    const key = tokenKey(token);
+    const record = this.store.get(TOKENS, key) as EmailToken | undefined;
+    if (!record || record.purpose !== purpose) throw new HttpError(400, 'The link is invalid or was already used');
+    this.store.remove(TOKENS, key);
+    if (record.expiresAt <= this.now()) throw new HttpError(400, 'The link has expired - request a new one');
+    return record.email;
+  }
+}
+
+function tokenKey(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function validateEmail(email: string): string {
+  const address = normalizeEmail(email);
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) throw new HttpError(400, 'Please enter a valid email address');
+  return address;
+}
+
+function validatePassword(password: string): void {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const { N, r, p, keyLength } = SCRYPT;
+  const hash = await scryptAsync(password, salt, keyLength, { N, r, p });
+  return ['scrypt', N, r, p, salt.toString('hex'), hash.toString('hex')].join('$');
+}
+
+async function checkPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt') return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length, { N: Number(N), r: Number(r), p: Number(p) });
+  return timingSafeEqual(actual, expected);
+}
+
+const DUMMY_HASH = ['scrypt', SCRYPT.N, SCRYPT.r, SCRYPT.p, '00'.repeat(16), '00'.repeat(SCRYPT.keyLength)].join('$');
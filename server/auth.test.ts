@@ -0,0 +1,108 @@
+/** @jest-environment node */
+import { Wallet } from 'ethers';
+import { formatSiweMessage, SiweMessage, SIWE_STATEMENT } from '../src/services/Siwe';
+import { AuthService, AUTH_SESSION_TTL_MS } from './auth';
+import { HttpError } from './http';
+
+const wallet = new Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const START = Date.parse('2024-01-01T00:00:00.000Z');
+
+function createAuth() {
+  const clock = { time: START };
+  const auth = new AuthService(['localhost:3000'], () => clock.time);
+  return { auth, clock };
+}
+
+// A sign-in message for `nonce`, valid for five minutes from `issuedAt`
+function message(nonce: string, overrides: Partial<SiweMessage> = {}): SiweMessage {
+  return {
+    chain: 'ethereum',
+    domain: 'localhost:3000',
+    address: wallet.address,
+    statement: SIWE_STATEMENT,
+    uri: 'http://localhost:3000',
+    version: '1',
+    chainId: '1',
+    nonce,
+    issuedAt: new Date(START).toISOString(),
+    expirationTime: new Date(START + 5 * 60 * 1000).toISOString(),
+    ...overrides,
+  };
+}
+
+async function signIn(auth: AuthService, fields: SiweMessage) {
+  const text = formatSiweMessage(fields);
+  return auth.signIn(text, await wallet.signMessage(text));
+}
+
+async function statusOf(attempt: Promise<unknown>): Promise<number> {
+  try {
+    await attempt;
+    return 200;
+  } catch (error) {
+    return error instanceof HttpError ? error.status : 500;
+  }
+}
+
+test('a signed message starts a session for the lowercase address', async () => {
+  const { auth } = createAuth();
+  const session = await signIn(auth, message(auth.issueNonce().nonce));
+
+  expect(session.address).toBe(wallet.address.toLowerCase());
+  expect(auth.authenticate(session.token)).toEqual(session);
+});
+
+test('a nonce works once, and unknown or expired nonces are refused', async () => {
+  const { auth, clock } = createAuth();
+  const { nonce } = auth.issueNonce();
+  await signIn(auth, message(nonce));
+  expect(await statusOf(signIn(auth, message(nonce)))).toBe(401);
+
+  expect(await statusOf(signIn(auth, message('abcdef0123456789')))).toBe(401);
+
+  const stale = auth.issueNonce().nonce;
+  clock.time += 11 * 60 * 1000;
+  expect(await statusOf(signIn(auth, message(stale, {
+    issuedAt: new Date(clock.time).toISOString(),
+    expirationTime: new Date(clock.time + 60 * 1000).toISOString(),
+  })))).toBe(401);
+});
+
+test('messages for another domain are refused, and use up their nonce', async () => {
+  const { auth } = createAuth();
+  const { nonce } = auth.issueNonce();
+
+  await expect(signIn(auth, message(nonce, { domain: 'evil.example' }))).rejects.toThrow('evil.example');
+  expect(await statusOf(signIn(auth, message(nonce)))).toBe(401);
+});
+
+test('messages need an expiration time that has not passed', async () => {
+  const { auth, clock } = createAuth();
+
+  await expect(signIn(auth, message(auth.issueNonce().nonce, { expirationTime: undefined })))
+    .rejects.toThrow('expired');
+
+  const { nonce } = auth.issueNonce();
+  clock.time += 6 * 60 * 1000;
+  await expect(signIn(auth, message(nonce))).rejects.toThrow('expired');
+});
+
+test('a signature from another wallet is refused', async () => {
+  const { auth } = createAuth();
+  const text = formatSiweMessage(message(auth.issueNonce().nonce));
+  const signature = await Wallet.createRandom().signMessage(text);
+
+  expect(await statusOf((async () => auth.signIn(text, signature))())).toBe(401);
+  expect(await statusOf((async () => auth.signIn(formatSiweMessage(message(auth.issueNonce().nonce)), '0x00'))())).toBe(401);
+});
+
+test('expired tokens are dropped', async () => {
+  const { auth, clock } = createAuth();
+  const session = await signIn(auth, message(auth.issueNonce().nonce));
+
+  clock.time += AUTH_SESSION_TTL_MS;
+  expect(auth.authenticate(session.token)).toBeNull();
+  // Dropped rather than hidden: turning the clock back doesn't revive it
+  clock.time -= 1;
+  expect(auth.authenticate(session.token)).toBeNull();
+});
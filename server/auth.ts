@@ -0,0 +1,123 @@
+import { randomBytes } from 'crypto';
+import { verifyMessage } from 'ethers';
+import { parseSiweMessage, SiweError, SiweMessage } from '../src/services/Siwe';
+import { verifyEd25519 } from './ed25519';
+import { HttpError } from './http';
+
+// Wallet sign-in. A client fetches a nonce, has the wallet sign a message
+// containing it and trades the signed message for a token that proves which
+// address it controls. Nonces work once; tokens expire. Email logins get
+// their tokens from EmailAccountService instead.
+
+const NONCE_TTL_MS = 10 * 60 * 1000;
+const CLOCK_SKEW_MS = 60 * 1000;
+export const AUTH_SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+export interface AuthSession {
+  token: string;
+  address: string;   // The login id: lowercase for Ethereum, base58 for Solana, "email:<address>" for email
+  expiresAt: number;
+}
+
+export class AuthService {
+  private readonly nonces = new Map<string, number>();  // nonce -> expiry
+  private readonly sessions = new Map<string, AuthSession>();
+
+  // `domains` are the hosts sign-in messages may name, e.g. "localhost:3000"
+  constructor(
+    private readonly domains: string[],
+    private readonly now: () => number = Date.now
+  ) {}
+
+  issueNonce(): { nonce: string; expiresAt: number } {
+    this.pruneExpired();
+    const nonce = randomBytes(16).toString('hex');
+    const expiresAt = this.now() + NONCE_TTL_MS;
+    this.nonces.set(nonce, expiresAt);
+    return { nonce, expiresAt };
+  }
+
+  // Check a signed sign-in message (Ethereum or Solana) and start an auth session
+  signIn(text: string, signature: string): AuthSession {
+    let message;
+    try {
+      message = parseSiweMessage(text);
+    } catch (error) {
+      if (error instanceof SiweError) throw new HttpError(400, error.message);
+      throw error;
+    }
+
+    // The nonce is used up by this attempt, whatever its outcome
+    const nonceExpiry = this.nonces.get(message.nonce);
+    this.nonces.delete(message.nonce);
+    const time = this.now();
+    if (nonceExpiry === undefined || nonceExpiry <= time) {
+      throw new HttpError(401, 'Unknown or expired nonce - request a new one');
+    }
+    if (!this.domains.includes(message.domain)) {
+      throw new HttpError(401, `Sign-in messages for ${message.domain} are not accepted here`);
+    }
+    if (Date.parse(message.issuedAt) > time + CLOCK_SKEW_MS) {
+      throw new HttpError(401, 'The message is issued in the future');
+    }
+    if (!message.expirationTime || Date.parse(message.expirationTime) <= time) {
+      throw new HttpError(401, 'The message has expired');
+    }
+
+    if (!signedBy(message, text, signature)) {
+      throw new HttpError(401, 'The signature does not match the address');
+    }
+
+    return this.startSession(message.chain === 'ethereum' ? message.address.toLowerCase() : message.address);
+  }
+
+  // Issue a token for a login the caller has already checked
+  startSession(address: string): AuthSession {
+    const session: AuthSession = {
+      token: randomBytes(32).toString('hex'),
+      address,
+      expiresAt: this.now() + AUTH_SESSION_TTL_MS,
+    };
+    this.sessions.set(session.token, session);
+    return session;
+  }
+
+  // End every auth session of a login, e.g. after its password changes
+  revoke(address: string): void {
+    this.sessions.forEach((session, token) => {
+      if (session.address === address) this.sessions.delete(token);
+    });
+  }
+
+  // The auth session for a token, or null if it's unknown or expired
+  authenticate(token: string | undefined): AuthSession | null {
+    if (!token) return null;
+    const session = this.sessions.get(token);
+    if (!session) return null;
+    if (session.expiresAt <= this.now()) {
+      this.sessions.delete(token);
+      return null;
+    }
+    return session;
+  }
+
+  private pruneExpired(): void {
+    const time = this.now();
+    this.nonces.forEach((expiresAt, nonce) => {
+      if (expiresAt <= time) this.nonces.delete(nonce);
+    });
+    this.sessions.forEach((session, token) => {
+      if (session.expiresAt <= time) this.sessions.delete(token);
+    });
+  }
+}
+
+// Ethereum wallets sign with EIP-191 personal_sign, Solana wallets with ed25519
+function signedBy(message: SiweMessage, text: string, signature: string): boolean {
+  try {
+    if (message.chain === 'solana') return verifyEd25519(text, signature, message.address);
+    return verifyMessage(text, signature) === message.address;
+  } catch (e) {
+    return false;
+  }
+}
@@ -0,0 +1,33 @@
+/** @jest-environment node */
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { encodeBase58, hexlify } from 'ethers';
+import { verifyEd25519 } from './ed25519';
+
+// A Solana-style wallet: base58 public key, hex signatures (as Phantom's adapter returns them)
+function createWallet(accept: (publicKey: Buffer) => boolean = () => true) {
+  for (;;) {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const raw = Buffer.from(publicKey.export({ format: 'jwk' }).x as string, 'base64url');
+    if (accept(raw)) return { address: encodeBase58(raw), signMessage: (message: string) => signWith(privateKey, message) };
+  }
+}
+
+function signWith(privateKey: KeyObject, message: string): string {
+  return hexlify(sign(null, Buffer.from(message, 'utf8'), privateKey));
+}
+
+test('accepts the signature of the address\'s key and nothing else', () => {
+  const wallet = createWallet();
+  const signature = wallet.signMessage('Treasure Hunt save file');
+
+  expect(verifyEd25519('Treasure Hunt save file', signature, wallet.address)).toBe(true);
+  expect(verifyEd25519('Treasure Hunt save file!', signature, wallet.address)).toBe(false);
+  expect(verifyEd25519('Treasure Hunt save file', signature, createWallet().address)).toBe(false);
+});
+
+test('works for public keys that start with zero bytes', () => {
+  const wallet = createWallet(raw => raw[0] === 0);
+  expect(wallet.address.startsWith('1')).toBe(true);
+
+  expect(verifyEd25519('hello', wallet.signMessage('hello'), wallet.address)).toBe(true);
+});
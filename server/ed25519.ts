@@ -0,0 +1,17 @@
+import { createPublicKey, verify } from 'crypto';
+import { decodeBase58, getBytes, toBeArray } from 'ethers';
+
+// Verify an ed25519 signature (as produced by Solana wallets such as Phantom).
+// `address` is the base58 public key, `signatureHex` the 64-byte signature.
+export function verifyEd25519(message: string, signatureHex: string, address: string): boolean {
+  const publicKey = toBeArray(decodeBase58(address));
+  if (publicKey.length > 32) return false;
+  // Leading zero bytes are lost in the base58 -> integer round trip
+  const raw = Buffer.concat([Buffer.alloc(32 - publicKey.length), Buffer.from(publicKey)]);
+
+  const key = createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: raw.toString('base64url') },
+    format: 'jwk',
+  });
+  return verify(null, Buffer.from(message, 'utf8'), key, Buffer.from(getBytes(signatureHex)));
+}
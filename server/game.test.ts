@@ -0,0 +1,161 @@
+/** @jest-environment node */
+import { Wallet } from 'ethers';
+import { linkingMessage } from '../src/services/AccountLinking';
+import { createSaveFile } from '../src/services/SaveFile';
+import { checkTile } from '../src/services/TerrainRules';
+import { getTreasureDatabase } from '../src/services/TreasureDataLoader';
+import { CURRENT_USER_VERSION } from '../src/services/UserMigrations';
+import { world } from '../src/services/WorldGenerator';
+import { CollectionEvent, User } from '../src/types/game';
+import { TilePosition } from '../src/services/Pathfinder';
+import { GameService } from './game';
+import { HttpError } from './http';
+import { RecordStore } from './routes/storage';
+
+const NOW = Date.parse('2024-06-01T12:00:00.000Z');
+const EMAIL = 'email:player@example.com';
+const wallet = new Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const WALLET = wallet.address.toLowerCase();
+
+function createGame() {
+  const store = new RecordStore();
+  return { store, game: new GameService(store, 'test secret', () => NOW) };
+}
+
+// Start a session for `userId`, placed at `position`
+function playAt(store: RecordStore, game: GameService, userId: string, position: TilePosition) {
+  const existing = store.get('users', userId) as User | undefined;
+  store.put('users', userId, {
+    version: CURRENT_USER_VERSION,
+    id: userId,
+    walletType: userId === EMAIL ? 'email' : 'metamask',
+    events: [],
+    lastLogin: new Date(NOW).toISOString(),
+    ...existing,
+    position,
+  });
+  return game.startSession(userId, undefined, true);
+}
+
+// The error `attempt` is refused with
+function refusal(attempt: () => unknown): HttpError {
+  try {
+    attempt();
+  } catch (error) {
+    if (error instanceof HttpError) return error;
+    throw error;
+  }
+  throw new Error('Expected the attempt to be refused');
+}
+
+// Water with two walkable tiles to its west
+function findShore(): { inland: TilePosition; land: TilePosition; water: TilePosition } {
+  for (let y = 0; y < world.size; y++) {
+    for (let x = 2; x < world.size; x++) {
+      if (!checkTile(x, y).allowed && checkTile(x - 1, y).allowed && checkTile(x - 2, y).allowed) {
+        return { inland: { x: x - 2, y }, land: { x: x - 1, y }, water: { x, y } };
+      }
+    }
+  }
+  throw new Error('No shore in the world');
+}
+
+const landmark = getTreasureDatabase().treasures[0];
+const landmarkTile = { x: landmark.x, y: landmark.y };
+
+test('moves that are too far or blocked are refused and report the tracked position', () => {
+  const { store, game } = createGame();
+  const { inland, land, water } = findShore();
+  const { sessionId } = playAt(store, game, EMAIL, land);
+
+  const tooFar = refusal(() => game.move(sessionId, { x: land.x - 2, y: land.y }));
+  expect(tooFar.status).toBe(409);
+  expect(tooFar.details).toEqual({ position: land });
+
+  const blocked = refusal(() => game.move(sessionId, water));
+  expect(blocked.status).toBe(409);
+  expect(blocked.details).toEqual({ position: land });
+
+  expect(game.move(sessionId, inland)).toEqual(inland);
+});
+
+test('a claim counts only on the tracked tile, and only once', () => {
+  const { store, game } = createGame();
+  const away = playAt(store, game, EMAIL, { x: landmark.x + 1, y: landmark.y });
+  expect(refusal(() => game.claim(away.sessionId, landmark.id!)).status).toBe(409);
+
+  const { sessionId } = playAt(store, game, EMAIL, landmarkTile);
+  const { event, events } = game.claim(sessionId, landmark.id!);
+  expect(event.treasureId).toBe(landmark.id);
+  expect(events).toHaveLength(1);
+
+  expect(refusal(() => game.claim(sessionId, landmark.id!)).message).toBe('Treasure already claimed');
+  const again = playAt(store, game, EMAIL, landmarkTile);
+  expect(refusal(() => game.claim(again.sessionId, landmark.id!)).status).toBe(409);
+});
+
+test('imports keep only events with a valid proof', () => {
+  const { store, game } = createGame();
+  const { sessionId } = playAt(store, game, EMAIL, landmarkTile);
+  const { event } = game.claim(sessionId, landmark.id!);
+
+  const forged: CollectionEvent = { ...event, id: 'forged', treasureId: 'T999', proof: event.proof };
+  const unproven: CollectionEvent = { ...event, id: 'unproven', treasureId: 'T998', proof: undefined };
+  const user = store.get('users', EMAIL) as User;
+  const save = JSON.stringify(createSaveFile({ ...user, events: [event, forged, unproven] }, null));
+
+  expect(game.importSave(sessionId, save, 'replace')).toEqual({ events: [event], rejected: 2 });
+  expect((store.get('users', EMAIL) as User).events).toEqual([event]);
+});
+
+test('wallets are linked only with a signature over the linking message', async () => {
+  const { store, game } = createGame();
+  const { sessionId } = playAt(store, game, EMAIL, landmarkTile);
+
+  expect(refusal(() => game.linkIdentity(sessionId, { type: 'metamask', id: WALLET })).status).toBe(400);
+  const wrongSession = await wallet.signMessage(linkingMessage(EMAIL, WALLET, 'another session'));
+  expect(refusal(() => game.linkIdentity(sessionId, { type: 'metamask', id: WALLET, signature: wrongSession })).status)
+    .toBe(403);
+  const otherWallet = await Wallet.createRandom().signMessage(linkingMessage(EMAIL, WALLET, sessionId));
+  expect(refusal(() => game.linkIdentity(sessionId, { type: 'metamask', id: WALLET, signature: otherWallet })).status)
+    .toBe(403);
+
+  const signature = await wallet.signMessage(linkingMessage(EMAIL, WALLET, sessionId));
+  expect(game.linkIdentity(sessionId, { type: 'metamask', id: WALLET, signature }).identities.map(i => i.id))
+    .toEqual([WALLET]);
+});
+
+test('emails are linked only by a caller signed in with them', () => {
+  const { store, game } = createGame();
+  const { sessionId } = playAt(store, game, WALLET, landmarkTile);
+
+  expect(refusal(() => game.linkIdentity(sessionId, { type: 'email', id: EMAIL })).status).toBe(401);
+  expect(game.linkIdentity(sessionId, { type: 'email', id: EMAIL, emailSignedIn: true }).identities.map(i => i.id))
+    .toEqual([EMAIL]);
+});
+
+test('linking a login with its own account merges that account in', async () => {
+  const { store, game } = createGame();
+  const other = playAt(store, game, WALLET, landmarkTile);
+  const { event } = game.claim(other.sessionId, landmark.id!);
+  const { sessionId } = playAt(store, game, EMAIL, { x: landmark.x + 1, y: landmark.y });
+
+  const signature = await wallet.signMessage(linkingMessage(EMAIL, WALLET, sessionId));
+  const result = game.linkIdentity(sessionId, { type: 'metamask', id: WALLET, signature });
+
+  // The old record is gone and its login opens the surviving account
+  expect(store.get('users', WALLET)).toBeUndefined();
+  expect(store.get('identities', WALLET)).toEqual({ accountId: EMAIL });
+  expect(game.startSession(WALLET).userId).toBe(EMAIL);
+
+  // Its finds are vouched for again under the surviving account
+  const merged = result.events.find(e => e.id === event.id)!;
+  expect(merged.proof).not.toBe(event.proof);
+  const user = store.get('users', EMAIL) as User;
+  const save = JSON.stringify(createSaveFile(user, null));
+  expect(game.importSave(sessionId, save, 'replace').rejected).toBe(0);
+
+  // The other account's live session now plays as the surviving account
+  game.move(other.sessionId, { x: landmark.x, y: landmark.y - 1 });
+  expect((store.get('users', EMAIL) as User).position).toEqual({ x: landmark.x, y: landmark.y - 1 });
+});
@@ -0,0 +1,315 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { verifyMessage } from 'ethers';
+import { CollectionEvent, LinkedIdentity, Treasure, User } from '../src/types/game';
+import { getIdentityIds, linkingMessage, mergeAccounts } from '../src/services/AccountLinking';
+import { getCollectedTreasures } from '../src/services/CollectionHistory';
+import { economy } from '../src/services/Economy';
+import { checkClaim, checkMove } from '../src/services/GameRules';
+import { getItemsFromTreasures } from '../src/services/TerrainRules';
+import { getTreasureDatabase } from '../src/services/TreasureDataLoader';
+import { treasureSpawner } from '../src/services/TreasureSpawner';
+import { TilePosition } from '../src/services/Pathfinder';
+import { CURRENT_USER_VERSION, migrateUserRecord, UserRecordError } from '../src/services/UserMigrations';
+import { ImportMode, mergeEvents, readSaveFile, SaveFileError } from '../src/services/SaveFile';
+import { world } from '../src/services/WorldGenerator';
+import { HttpError } from './http';
+import { verifyEd25519 } from './ed25519';
+import { RecordStore } from './routes/storage';
+
+// Server-side game state. The server tracks where every player is and
+// decides which claims count; clients only report what they did.
+
+const USERS = 'users';
+const IDENTITIES = 'identities';  // Linked login id -> { accountId }
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const SPAWN_POINT: TilePosition = { x: Math.floor(world.size / 2), y: Math.floor(world.size / 2) };
+
+interface Session {
+  id: string;
+  userId: string;
+  position: TilePosition;
+  expiresAt: number;
+}
+
+export interface SessionState {
+  sessionId: string;
+  userId: string;  // The account, which differs from the login when it's a linked identity
+  identities: LinkedIdentity[];
+  position: TilePosition;
+  events: CollectionEvent[];
+  expiresAt: number;
+}
+
+export interface ClaimResult {
+  event: CollectionEvent;
+  events: CollectionEvent[];
+}
+
+export interface LinkRequest {
+  type: LinkedIdentity['type'];
+  id: string;
+  signature?: string;       // Required for wallets, over linkingMessage()
+  emailSignedIn?: boolean;  // Required for emails: the caller checked a sign-in token for `id`
+}
+
+export interface LinkResult {
+  identities: LinkedIdentity[];
+  events: CollectionEvent[];
+}
+
+export interface ImportResult {
+  events: CollectionEvent[];
+  rejected: number;  // Events in the file the server couldn't vouch for
+}
+
+export class GameService {
+  private readonly sessions = new Map<string, Session>();
+
+  // `secret` signs collection events so they can be accepted back from save files
+  // `store` must not be one HTTP clients can write (like the /storage routes'):
+  // it holds the players' positions, finds and linked logins
+  constructor(
+    private readonly store: RecordStore,
+    private readonly secret: string,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  // With `resume`, the player continues from the last position the server
+  // accepted; otherwise they start at the spawn point. Sessions end at
+  // `expiresAt`, e.g. when the wallet sign-in they were started with does.
+  startSession(
+    loginId: string,
+    walletType?: User['walletType'],
+    resume: boolean = false,
+    expiresAt: number = this.now() + SESSION_TTL_MS
+  ): SessionState {
+    const userId = this.resolveAccount(loginId);
+    const existing = this.findUser(userId);
+    const user: User = {
+      walletType,
+      events: [],
+      ...existing,
+      version: CURRENT_USER_VERSION,
+      id: userId,
+      lastLogin: new Date(this.now()).toISOString(),
+    };
+    this.store.put(USERS, userId, user);
+
+    const start = resume && user.position ? user.position : SPAWN_POINT;
+    const session: Session = { id: randomUUID(), userId, position: { ...start }, expiresAt };
+    this.sessions.set(session.id, session);
+    return {
+      sessionId: session.id,
+      userId,
+      identities: user.identities || [],
+      position: session.position,
+      events: user.events,
+      expiresAt,
+    };
+  }
+
+  endSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  // Apply a reported move. Refused moves leave the player where the server
+  // last saw them and report that position back.
+  move(sessionId: string, to: TilePosition): TilePosition {
+    const session = this.getSession(sessionId);
+    const user = this.getUser(session.userId);
+    const reason = checkMove(session.position, to, getItemsFromTreasures(getCollectedTreasures(user.events)));
+    if (reason) {
+      throw new HttpError(409, reason, { position: session.position });
+    }
+    session.position = { x: to.x, y: to.y };
+    this.store.put(USERS, user.id, { ...user, position: session.position });
+    return session.position;
+  }
+
+  // Landmarks plus the spawned treasures alive right now
+  listTreasures(): { treasures: Treasure[]; nextChangeAt: number } {
+    const time = this.now();
+    const landmarks = getTreasureDatabase().treasures;
+    return {
+      treasures: [...landmarks, ...treasureSpawner.getActiveTreasures(time, landmarks)],
+      nextChangeAt: treasureSpawner.getNextWindowStart(time),
+    };
+  }
+
+  claim(sessionId: string, treasureId: string): ClaimResult {
+    const session = this.getSession(sessionId);
+    const user = this.getUser(session.userId);
+    const treasure = this.listTreasures().treasures.find(t => t.id === treasureId);
+    if (!treasure) {
+      throw new HttpError(404, 'No such treasure');
+    }
+
+    const claimedIds = user.events.map(event => event.treasureId);
+    const reason = checkClaim(session.position, treasure, claimedIds, this.now());
+    if (reason) {
+      throw new HttpError(409, reason, { position: session.position });
+    }
+
+    const time = this.now();
+    const award = economy.scoreClaim(treasure, {
+      time,
+      history: user.events,
+      firstFinder: !this.isClaimedByAnyone(treasureId),
+    });
+    const event: CollectionEvent = {
+      id: randomUUID(),
+      treasureId: treasureId,
+      treasure,
+      x: treasure.x,
+      y: treasure.y,
+      points: award.total,
+      breakdown: award.lines,
+      sessionId: session.id,
+      collectedAt: new Date(time).toISOString(),
+    };
+    event.proof = this.proof(user.id, event);
+    const events = [...user.events, event];
+    this.store.put(USERS, user.id, { ...user, events });
+    return { event, events };
+  }
+
+  // Import the collection history from a save file. The file must pass its
+  // checksum and the signature check for the stored account, and only events
+  // this server recorded for this user are accepted - a save file can't add
+  // claims that never happened.
+  importSave(sessionId: string, text: string, mode: ImportMode): ImportResult {
+    const session = this.getSession(sessionId);
+    const user = this.getUser(session.userId);
+
+    let file;
+    try {
+      file = readSaveFile(text, user, verifyEd25519);
+    } catch (error) {
+      if (error instanceof SaveFileError) throw new HttpError(400, error.message);
+      throw error;
+    }
+    if (file.check.problems.length > 0) {
+      throw new HttpError(422, file.check.problems.join('; '));
+    }
+    if (file.file.user.id !== user.id) {
+      throw new HttpError(403, 'This save belongs to another account');
+    }
+
+    const proven = file.file.user.events.filter(event => this.hasValidProof(user.id, event));
+    const events = mode === 'replace' ? mergeEvents([], proven) : mergeEvents(user.events, proven);
+    this.store.put(USERS, user.id, { ...user, events });
+    return { events, rejected: file.file.user.events.length - proven.length };
+  }
+
+  // Whether any player has claimed the treasure, for the first finder bonus
+  private isClaimedByAnyone(treasureId: string): boolean {
+    return this.store.getAll(USERS).some(record => {
+      const events = (record as Partial<User>).events;
+      return Array.isArray(events) && events.some(event => event.treasureId === treasureId);
+    });
+  }
+
+  // Attach another login to the session's account. Wallets prove ownership by
+  // signing linkingMessage(); emails by a sign-in token, which the route
+  // checks. If the identity already has an account, that account is merged
+  // into this one.
+  linkIdentity(sessionId: string, request: LinkRequest): LinkResult {
+    const session = this.getSession(sessionId);
+    const user = this.getUser(session.userId);
+
+    if (request.type === 'metamask' || request.type === 'phantom') {
+      if (!request.signature) throw new HttpError(400, 'A wallet signature is required');
+      const message = linkingMessage(user.id, request.id, session.id);
+      if (!this.verifyWallet(request.type, request.id, message, request.signature)) {
+        throw new HttpError(403, 'The signature does not match the wallet');
+      }
+    } else if (request.type !== 'email' || !request.id.startsWith('email:')) {
+      throw new HttpError(400, 'Only wallets and email logins can be linked');
+    } else if (!request.emailSignedIn) {
+      throw new HttpError(401, 'Sign in with this email to link it');
+    }
+
+    const ownerId = this.resolveAccount(request.id);
+    if (ownerId === user.id) {
+      throw new HttpError(409, 'This login is already linked to your account');
+    }
+
+    const other = this.findUser(ownerId);
+    const identity: LinkedIdentity = { type: request.type, id: request.id, linkedAt: new Date(this.now()).toISOString() };
+    const merged = mergeAccounts(user, other, identity);
+    // Proofs are bound to the account, so events from the other one are vouched for again
+    merged.events = merged.events.map(event =>
+      other && event.proof && this.hasValidProof(other.id, event) ? { ...event, proof: this.proof(user.id, event) } : event
+    );
+
+    this.store.put(USERS, user.id, merged);
+    getIdentityIds(merged).slice(1).forEach(id => this.store.put(IDENTITIES, id, { accountId: user.id }));
+    if (other) {
+      this.store.remove(USERS, other.id);
+      this.sessions.forEach(s => {
+        if (s.userId === other.id) s.userId = user.id;
+      });
+    }
+    return { identities: merged.identities || [], events: merged.events };
+  }
+
+  private resolveAccount(loginId: string): string {
+    const link = this.store.get(IDENTITIES, loginId) as { accountId?: string } | undefined;
+    return link && typeof link.accountId === 'string' ? link.accountId : loginId;
+  }
+
+  private verifyWallet(type: 'metamask' | 'phantom', address: string, message: string, signature: string): boolean {
+    try {
+      if (type === 'metamask') return verifyMessage(message, signature).toLowerCase() === address.toLowerCase();
+      return verifyEd25519(message, signature, address);
+    } catch (e) {
+      return false;
+    }
+  }
+
+  private proof(userId: string, event: CollectionEvent): string {
+    return createHmac('sha256', this.secret)
+      .update([userId, event.id, event.treasureId, event.points, event.collectedAt].join('|'))
+      .digest('hex');
+  }
+
+  private hasValidProof(userId: string, event: CollectionEvent): boolean {
+    if (typeof event.proof !== 'string') return false;
+    const expected = Buffer.from(this.proof(userId, event), 'hex');
+    const actual = Buffer.from(event.proof, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private getSession(sessionId: string): Session {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new HttpError(404, 'Session not found');
+    if (session.expiresAt <= this.now()) {
+      this.sessions.delete(sessionId);
+      throw new HttpError(401, 'Session expired - sign in again');
+    }
+    return session;
+  }
+
+  private getUser(userId: string): User {
+    const user = this.findUser(userId);
+    if (!user) throw new HttpError(404, 'User not found');
+    return user;
+  }
+
+  // Stored records may predate the current schema, so run them through the
+  // same migrations as the client
+  private findUser(userId: string): User | null {
+    const record = this.store.get(USERS, userId);
+    if (record === undefined) return null;
+    try {
+      const { user, migrated } = migrateUserRecord(record);
+      if (migrated) this.store.put(USERS, userId, user);
+      return user;
+    } catch (error) {
+      if (error instanceof UserRecordError) {
+        throw new HttpError(500, `Stored record for ${userId} is unreadable: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+}
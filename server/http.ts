@@ -0,0 +1,101 @@
+import { IncomingMessage, ServerResponse } from 'http';
+
+// Minimal routing on top of Node's http module - enough for the local
+// mock backend without pulling in a framework.
+
+export type Params = {[name: string]: string};
+
+export type Handler = (req: IncomingMessage, res: ServerResponse, params: Params) => Promise<void> | void;
+
+interface Route {
+  method: string;
+  parts: string[];
+  handler: Handler;
+}
+
+// Error with an HTTP status, turned into a JSON error response by the router.
+// `details` are merged into the response body next to the message.
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly details: object = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body?: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+export async function readJson<T>(req: IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf8');
+  try {
+    return (text ? JSON.parse(text) : null) as T;
+  } catch (e) {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+}
+
+// Token from an "Authorization: Bearer <token>" header
+export function bearerToken(req: IncomingMessage): string | undefined {
+  const match = /^Bearer (\S+)$/.exec(req.headers.authorization || '');
+  return match ? match[1] : undefined;
+}
+
+export class Router {
+  private readonly routes: Route[] = [];
+
+  constructor(private readonly prefix: string = '') {}
+
+  // Paths use ":name" segments for parameters, e.g. "/storage/:collection"
+  add(method: string, path: string, handler: Handler): this {
+    this.routes.push({ method, parts: split(this.prefix + path), handler });
+    return this;
+  }
+
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const parts = split(url.pathname);
+    let pathMatched = false;
+
+    for (const route of this.routes) {
+      const params = match(route.parts, parts);
+      if (!params) continue;
+      pathMatched = true;
+      if (route.method !== req.method) continue;
+
+      try {
+        await route.handler(req, res, params);
+      } catch (error) {
+        if (error instanceof HttpError) {
+          sendJson(res, error.status, { ...error.details, error: error.message });
+        } else {
+          console.error(`${req.method} ${url.pathname} failed:`, error);
+          sendJson(res, 500, { error: 'Internal server error' });
+        }
+      }
+      return;
+    }
+
+    sendJson(res, pathMatched ? 405 : 404, { error: pathMatched ? 'Method not allowed' : 'Not found' });
+  }
+}
+
+function split(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+function match(pattern: string[], parts: string[]): Params | null {
+  if (pattern.length !== parts.length) return null;
+  const params: Params = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(':')) {
+      params[pattern[i].slice(1)] = decodeURIComponent(parts[i]);
+    } else if (pattern[i] !== parts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
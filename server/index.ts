@@ -0,0 +1,66 @@
+import http from 'http';
+import path from 'path';
+import { Router } from './http';
+import { addStorageRoutes, RecordStore } from './routes/storage';
+import { addGameRoutes } from './routes/game';
+import { addAuthRoutes } from './routes/auth';
+import { addAccountRoutes } from './routes/accounts';
+import { AuthService } from './auth';
+import { EmailAccountService } from './accounts';
+import { OutboxMailer } from './mailer';
+import { GameService } from './game';
+
+// Local backend for development. Start with `npm run server`; the React dev
+// server proxies /api here (see "proxy" in package.json).
+//   PORT          - port to listen on (default 4000)
+//   STORAGE_FILE  - JSON file to persist records of the /storage routes in (default: memory only)
+//   GAME_FILE     - JSON file to persist the game server's players in (default: memory only). Kept
+//                   apart from STORAGE_FILE so HTTP clients can't rewrite them
+//   SERVER_SECRET - key for signing collection events (set this outside development)
+//   SIWE_DOMAINS  - comma-separated hosts wallet sign-in messages may name (default localhost:3000)
+//   ACCOUNTS_FILE - JSON file to persist email accounts in (default: memory only). Kept apart
+//                   from STORAGE_FILE, which the /storage routes expose
+//   OUTBOX_DIR    - where account emails are written instead of being sent (default server/outbox)
+//   APP_URL       - where links in account emails point (default http://localhost:3000)
+
+const PORT = Number(process.env.PORT) || 4000;
+
+const SERVER_SECRET = process.env.SERVER_SECRET || 'treasure-hunt-dev-secret';
+if (!process.env.SERVER_SECRET) {
+  console.warn('SERVER_SECRET is not set; using the development secret');
+}
+
+const SIWE_DOMAINS = (process.env.SIWE_DOMAINS || 'localhost:3000').split(',').map(domain => domain.trim());
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+// __dirname is server/build/server once compiled
+const OUTBOX_DIR = process.env.OUTBOX_DIR || path.join(__dirname, '..', '..', 'outbox');
+
+const store = new RecordStore(process.env.STORAGE_FILE);
+const gameStore = new RecordStore(process.env.GAME_FILE);
+const accountStore = new RecordStore(process.env.ACCOUNTS_FILE);
+const auth = new AuthService(SIWE_DOMAINS);
+const accounts = new EmailAccountService(accountStore, new OutboxMailer(OUTBOX_DIR), auth, APP_URL);
+const router = new Router('/api');
+addStorageRoutes(router, store);
+addAuthRoutes(router, auth);
+addAccountRoutes(router, accounts);
+addGameRoutes(router, new GameService(gameStore, SERVER_SECRET), auth);
+
+// Write out pending changes before stopping
+['SIGINT', 'SIGTERM'].forEach(signal => {
+  process.on(signal, () => {
+    store.flush();
+    gameStore.flush();
+    accountStore.flush();
+    process.exit(0);
+  });
+});
+
+http
+  .createServer((req, res) => {
+    router.handle(req, res);
+  })
+  .listen(PORT, () => {
+    console.log(`Treasure hunt server listening on http://localhost:${PORT}`);
+  });
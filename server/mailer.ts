@@ -0,0 +1,30 @@
+import fs from 'fs';
+import path from 'path';
+
+// Outgoing mail. The server only needs to send a handful of account emails,
+// so anything that can deliver a Mail (SMTP, a mail API) can stand in for
+// the outbox used in development.
+
+export interface Mail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(mail: Mail): Promise<void>;
+}
+
+// Writes each mail to a file in `dir` instead of sending it. Open the newest
+// file to follow a verification or password reset link.
+export class OutboxMailer implements Mailer {
+  constructor(private readonly dir: string) {}
+
+  async send(mail: Mail): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${mail.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}.txt`;
+    const file = path.join(this.dir, name);
+    await fs.promises.writeFile(file, `To: ${mail.to}\nSubject: ${mail.subject}\n\n${mail.text}\n`);
+    console.log(`Mail to ${mail.to} written to ${file}`);
+  }
+}
@@ -0,0 +1,47 @@
+import { IncomingMessage } from 'http';
+import { Router, readJson, sendJson, HttpError } from '../http';
+import { EmailAccountService, normalizeEmail } from '../accounts';
+
+//   POST /accounts                         { email, password } -> 202, mails a verification link
+//   POST /accounts/verify                  { token } -> { email }
+//   POST /accounts/password-reset          { email } -> 202, mails a reset link if the account exists
+//   POST /accounts/password-reset/confirm  { token, password } -> { email }
+//   POST /auth/login                       { email, password } -> { token, address, expiresAt }
+export function addAccountRoutes(router: Router, accounts: EmailAccountService): void {
+  router
+    .add('POST', '/accounts', async (req, res) => {
+      const body = await readCredentials(req);
+      await accounts.register(body.email, body.password);
+      sendJson(res, 202, { email: normalizeEmail(body.email) });
+    })
+    .add('POST', '/accounts/verify', async (req, res) => {
+      const body = await readJson<{ token?: unknown }>(req);
+      if (!body || typeof body.token !== 'string') throw new HttpError(400, 'token is required');
+      sendJson(res, 200, { email: await accounts.verifyEmail(body.token) });
+    })
+    .add('POST', '/accounts/password-reset', async (req, res) => {
+      const body = await readJson<{ email?: unknown }>(req);
+      if (!body || typeof body.email !== 'string') throw new HttpError(400, 'email is required');
+      await accounts.requestPasswordReset(body.email);
+      sendJson(res, 202);
+    })
+    .add('POST', '/accounts/password-reset/confirm', async (req, res) => {
+      const body = await readJson<{ token?: unknown; password?: unknown }>(req);
+      if (!body || typeof body.token !== 'string' || typeof body.password !== 'string') {
+        throw new HttpError(400, 'token and password are required');
+      }
+      sendJson(res, 200, { email: await accounts.resetPassword(body.token, body.password) });
+    })
+    .add('POST', '/auth/login', async (req, res) => {
+      const body = await readCredentials(req);
+      sendJson(res, 200, await accounts.login(body.email, body.password));
+    });
+}
+
+async function readCredentials(req: IncomingMessage): Promise<{ email: string; password: string }> {
+  const body = await readJson<{ email?: unknown; password?: unknown }>(req);
+  if (!body || typeof body.email !== 'string' || typeof body.password !== 'string') {
+    throw new HttpError(400, 'email and password are required');
+  }
+  return { email: body.email, password: body.password };
+}
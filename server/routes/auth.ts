@@ -0,0 +1,19 @@
+import { Router, readJson, sendJson, HttpError } from '../http';
+import { AuthService } from '../auth';
+
+//   GET  /auth/nonce   -> { nonce, expiresAt }
+//   POST /auth/sign-in { message, signature } -> { token, address, expiresAt }
+//                        Sign-In With Ethereum messages, or the Solana equivalent
+export function addAuthRoutes(router: Router, auth: AuthService): void {
+  router
+    .add('GET', '/auth/nonce', (req, res) => {
+      sendJson(res, 200, auth.issueNonce());
+    })
+    .add('POST', '/auth/sign-in', async (req, res) => {
+      const body = await readJson<{ message?: unknown; signature?: unknown }>(req);
+      if (!body || typeof body.message !== 'string' || typeof body.signature !== 'string') {
+        throw new HttpError(400, 'message and signature are required');
+      }
+      sendJson(res, 200, auth.signIn(body.message, body.signature));
+    });
+}
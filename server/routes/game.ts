@@ -0,0 +1,84 @@
+import { isAddress } from 'ethers';
+import { Router, bearerToken, readJson, sendJson, HttpError } from '../http';
+import { isSolanaAddress } from '../../src/services/Siwe';
+import { AuthService } from '../auth';
+import { GameService } from '../game';
+
+const WALLET_TYPES = ['metamask', 'phantom', 'email', 'other'] as const;
+const LINK_TYPES = ['metamask', 'phantom', 'email'] as const;
+
+//   POST   /sessions                   { userId, walletType, resume } -> session state
+//                                       Wallet and email logins need "Authorization: Bearer <token>"
+//                                       from /auth/sign-in or /auth/login
+//   DELETE /sessions/:sessionId
+//   POST   /sessions/:sessionId/moves  { x, y } -> { position }
+//   POST   /sessions/:sessionId/claims { treasureId } -> claim result
+//   POST   /sessions/:sessionId/import { save, mode } -> { events, rejected }
+//   POST   /sessions/:sessionId/links  { type, id, signature | token } -> { identities, events }
+//                                       Emails are linked with a token from /auth/login
+//   GET    /treasures                  -> { treasures, nextChangeAt }
+export function addGameRoutes(router: Router, game: GameService, auth: AuthService): void {
+  router
+    .add('POST', '/sessions', async (req, res) => {
+      const body = await readJson<{ userId?: unknown; walletType?: unknown; resume?: unknown }>(req);
+      if (!body || typeof body.userId !== 'string' || !body.userId) {
+        throw new HttpError(400, 'userId is required');
+      }
+      const walletType = WALLET_TYPES.find(type => type === body.walletType);
+
+      // Playing as a wallet address or email takes a signed-in login, whatever the wallet type claims
+      const signedIn = auth.authenticate(bearerToken(req));
+      const loginId = provenLoginId(body.userId);
+      if (loginId !== null && signedIn?.address !== loginId) {
+        throw new HttpError(401, loginId.startsWith('email:')
+          ? 'Sign in with your email and password to play as this account'
+          : 'Sign in with your wallet to play as this address');
+      }
+      sendJson(res, 201, game.startSession(loginId ?? body.userId, walletType, body.resume === true, signedIn?.expiresAt));
+    })
+    .add('DELETE', '/sessions/:sessionId', (req, res, { sessionId }) => {
+      game.endSession(sessionId);
+      sendJson(res, 204);
+    })
+    .add('POST', '/sessions/:sessionId/moves', async (req, res, { sessionId }) => {
+      const body = await readJson<{ x?: unknown; y?: unknown }>(req);
+      if (!body || typeof body.x !== 'number' || typeof body.y !== 'number') {
+        throw new HttpError(400, 'x and y are required');
+      }
+      sendJson(res, 200, { position: game.move(sessionId, { x: body.x, y: body.y }) });
+    })
+    .add('POST', '/sessions/:sessionId/claims', async (req, res, { sessionId }) => {
+      const body = await readJson<{ treasureId?: unknown }>(req);
+      if (!body || typeof body.treasureId !== 'string') {
+        throw new HttpError(400, 'treasureId is required');
+      }
+      sendJson(res, 200, game.claim(sessionId, body.treasureId));
+    })
+    .add('POST', '/sessions/:sessionId/import', async (req, res, { sessionId }) => {
+      const body = await readJson<{ save?: unknown; mode?: unknown }>(req);
+      if (!body || typeof body.save !== 'string' || (body.mode !== 'merge' && body.mode !== 'replace')) {
+        throw new HttpError(400, 'save (the file contents) and mode ("merge" or "replace") are required');
+      }
+      sendJson(res, 200, game.importSave(sessionId, body.save, body.mode));
+    })
+    .add('POST', '/sessions/:sessionId/links', async (req, res, { sessionId }) => {
+      const body = await readJson<{ type?: unknown; id?: unknown; signature?: unknown; token?: unknown }>(req);
+      const type = LINK_TYPES.find(t => t === body?.type);
+      if (!body || !type || typeof body.id !== 'string' || !body.id) {
+        throw new HttpError(400, 'type ("metamask", "phantom" or "email") and id are required');
+      }
+      const signedIn = auth.authenticate(typeof body.token === 'string' ? body.token : undefined);
+      const emailSignedIn = type === 'email' && signedIn?.address === body.id;
+      const signature = typeof body.signature === 'string' ? body.signature : undefined;
+      sendJson(res, 200, game.linkIdentity(sessionId, { type, id: body.id, signature, emailSignedIn }));
+    })
+    .add('GET', '/treasures', (req, res) => {
+      sendJson(res, 200, game.listTreasures());
+    });
+}
+
+// The login a user id needs a signed-in token for, or null for local players
+function provenLoginId(userId: string): string | null {
+  if (userId.startsWith('email:') || isSolanaAddress(userId)) return userId;
+  return isAddress(userId) ? userId.toLowerCase() : null;
+}
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import { Router, readJson, sendJson, HttpError } from '../http';
+
+type Collections = {[collection: string]: {[key: string]: unknown}};
+
+// How long to batch changes before writing the file
+const SAVE_DELAY_MS = 500;
+
+// Record store behind the REST storage adapter. Kept in memory and, when a
+// file is given, written back to disk shortly after each change.
+export class RecordStore {
+  private collections: Collections = {};
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly file?: string) {
+    if (file && fs.existsSync(file)) {
+      try {
+        this.collections = JSON.parse(fs.readFileSync(file, 'utf8'));
+      } catch (error) {
+        // Keep the unreadable file next to the new one rather than overwriting it
+        const backup = `${file}.corrupt-${Date.now()}`;
+        fs.renameSync(file, backup);
+        console.error(`Could not read ${file}, moved it to ${backup}:`, error);
+      }
+    }
+  }
+
+  get(collection: string, key: string): unknown {
+    return this.collections[collection]?.[key];
+  }
+
+  getAll(collection: string): unknown[] {
+    return Object.values(this.collections[collection] || {});
+  }
+
+  put(collection: string, key: string, value: unknown): void {
+    this.collections[collection] = { ...this.collections[collection], [key]: value };
+    this.save();
+  }
+
+  remove(collection: string, key: string): void {
+    if (this.collections[collection]) {
+      delete this.collections[collection][key];
+      this.save();
+    }
+  }
+
+  clear(collection: string): void {
+    delete this.collections[collection];
+    this.save();
+  }
+
+  // Write pending changes now (e.g. before the process exits)
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (this.file) {
+      fs.writeFileSync(this.file, JSON.stringify(this.collections, null, 2));
+    }
+  }
+
+  // Players report a move every step, so writes are batched
+  private save(): void {
+    if (this.file && !this.saveTimer) {
+      this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+    }
+  }
+}
+
+export function addStorageRoutes(router: Router, store: RecordStore): void {
+  router
+    .add('GET', '/storage/:collection', (req, res, { collection }) => {
+      sendJson(res, 200, store.getAll(collection));
+    })
+    .add('DELETE', '/storage/:collection', (req, res, { collection }) => {
+      store.clear(collection);
+      sendJson(res, 204);
+    })
+    .add('GET', '/storage/:collection/:key', (req, res, { collection, key }) => {
+      const record = store.get(collection, key);
+      if (record === undefined) throw new HttpError(404, `No record "${key}" in ${collection}`);
+      sendJson(res, 200, record);
+    })
+    .add('PUT', '/storage/:collection/:key', async (req, res, { collection, key }) => {
+      const record = await readJson<unknown>(req);
+      if (record === null || typeof record !== 'object') {
+        throw new HttpError(400, 'Record must be a JSON object');
+      }
+      store.put(collection, key, record);
+      sendJson(res, 204);
+    })
+    .add('DELETE', '/storage/:collection/:key', (req, res, { collection, key }) => {
+      store.remove(collection, key);
+      sendJson(res, 204);
+    });
+}
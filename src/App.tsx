@@ -1,144 +1,552 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef, useMemo, useCallback } from "react";
 import WalletLogin from "./components/MetaMaskLogin";
-import GameCanvas, { Player, Treasure } from "./components/GameCanvas";
+import GameCanvas, { Player, Treasure, BlockedMove } from "./components/GameCanvas";
 import ZoomSlider from "./components/ZoomSlider";
+import Minimap from "./components/Minimap";
 import CollectedTreasuresList from "./components/CollectedTreasuresList";
+import ActivityTimeline from "./components/ActivityTimeline";
+import ResumePrompt from "./components/ResumePrompt";
+import SaveFilePanel from "./components/SaveFilePanel";
+import LinkAccountPanel from "./components/LinkAccountPanel";
+import SpectatePrompt from "./components/SpectatePrompt";
 import ProfileBanner from "./components/ProfileBanner";
-import treasureData from "./data/treasureData.json";
+import { getTreasureDatabase, TreasureDataError } from "./services/TreasureDataLoader";
+import { gameApi, GameApiError, GameSession } from "./services/GameApi";
 import { userService, User } from "./services/UserService";
+import { LinkedIdentity } from "./types/game";
+import { createGameStore, selectCanClaim, selectCollectedTreasures, selectPlayerItems, selectScore, useGameState } from "./store";
+import { ImportMode, mergeExploration } from "./services/SaveFile";
+import { needsResumePrompt, SessionSnapshot } from "./services/SessionState";
+import { ReceivedTabMessage, tabSync } from "./services/TabSync";
+import { NetworkInfo, walletSessions, WalletEndReason } from "./services/WalletSessionManager";
+import { WalletAdapter } from "./services/wallets";
+import { world } from "./services/WorldGenerator";
+import { checkTile, STEP_DURATION_MS } from "./services/TerrainRules";
+import { findPath, TilePosition } from "./services/Pathfinder";
+import { ExplorationMap } from "./services/ExplorationMap";
+import { getProximity } from "./services/TreasureVisibility";
+import ProximityDetector from "./components/ProximityDetector";
+import { Camera, createCamera, centerOn, zoomCamera, MAX_VISIBLE_TILES } from "./services/Camera";
 
-const GRID_SIZE = 500;
-const INITIAL_ZOOM = 100; // Start at full map (500x500)
-const ZOOM_LEVELS = [100, 50, 20, 10, 2]; // 500x500, 250x250, 100x100, 50x50, 10x10
-
-// Load treasures from our database
-function loadTreasuresFromData(): Treasure[] {
-  return treasureData.treasures.map(t => ({
-    id: t.id,
-    x: t.x,
-    y: t.y,
-    emoji: t.emoji,
-    name: t.name,
-    description: t.description,
-    rarity: t.rarity,
-    biome: t.biome
-  }));
-}
+const GRID_SIZE = world.size;
+const SPAWN_POINT = { x: Math.floor(GRID_SIZE / 2), y: Math.floor(GRID_SIZE / 2) };
+const INITIAL_VISIBLE_TILES = MAX_VISIBLE_TILES; // Start at full map (500x500)
 
-// Calculate treasure value based on rarity
-function calculateTreasureValue(rarity: string): number {
-  const valueMap: {[key: string]: number} = {
-    'Common': 10,
-    'Uncommon': 50,
-    'Rare': 200,
-    'Epic': 500,
-    'Legendary': 1000
-  };
-  return valueMap[rarity] || 10; // Default to 10 if rarity not found
+const WALLET_END_MESSAGES: {[reason in WalletEndReason]: string} = {
+  disconnected: 'Your wallet disconnected. Sign in again to keep playing.',
+  accountChanged: 'Your wallet switched to another account. Sign in again to play with it.',
+};
+
+// Validate the treasure data up front so broken content shows a clear error
+function checkTreasureData(): TreasureDataError | null {
+  try {
+    getTreasureDatabase();
+    return null;
+  } catch (error) {
+    if (error instanceof TreasureDataError) return error;
+    throw error;
+  }
 }
 
 function App() {
-  const [address, setAddress] = useState<string | null>(null);
-  const [walletType, setWalletType] = useState<'metamask' | 'phantom' | 'email' | 'other'>('other');
-  const [player, setPlayer] = useState<Player | null>(null);
-  const [zoom, setZoom] = useState(INITIAL_ZOOM);
-  const [treasures] = useState<Treasure[]>(loadTreasuresFromData());
-  const [score, setScore] = useState(0);
-  const [collectedTreasures, setCollectedTreasures] = useState<Treasure[]>([]);
-  const [openedTreasures, setOpenedTreasures] = useState<{[key: string]: boolean}>({});
+  // Who is playing, where they are and what they own live in the game store
+  const [store] = useState(createGameStore);
+  const game = useGameState(store);
+  const { account, profile: currentUser, position, events, openedTreasures } = game;
+  const address = account ? account.id : null;
+  const walletType = account ? account.walletType : 'other';
+  const spectating = !!account?.spectating;
+  const player = useMemo((): Player | null => (
+    position && address ? { ...position, address } : null
+  ), [position, address]);
+  const score = useMemo(() => selectScore(game), [game]);
+  const collectedTreasures = useMemo(() => selectCollectedTreasures(game), [game]);
+  const playerItems = useMemo(() => selectPlayerItems(game), [game]);
+
+  const [camera, setCamera] = useState<Camera>(() => createCamera(SPAWN_POINT, INITIAL_VISIBLE_TILES, GRID_SIZE));
+  const [dataError] = useState(checkTreasureData);
+  const [session, setSession] = useState<GameSession | null>(null);
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [treasures, setTreasures] = useState<Treasure[]>([]);
+  const [nextTreasureChange, setNextTreasureChange] = useState<number | null>(null);
   const [showTreasuresList, setShowTreasuresList] = useState(false);
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showSaveFile, setShowSaveFile] = useState(false);
+  const [showLinks, setShowLinks] = useState(false);
+  const [resumeOffer, setResumeOffer] = useState<{
+    address: string;
+    walletType: 'metamask' | 'phantom' | 'email' | 'other';
+    snapshot: SessionSnapshot;
+  } | null>(null);
+  // Another tab is playing the account; offer to watch it
+  const [spectateOffer, setSpectateOffer] = useState<{
+    address: string;
+    walletType: 'metamask' | 'phantom' | 'email' | 'other';
+    tab: ReceivedTabMessage & { type: 'playing' };
+  } | null>(null);
+  // While spectating: the login to play with, and news from the playing tab
+  const [spectatorLogin, setSpectatorLogin] = useState<{
+    address: string;
+    walletType: 'metamask' | 'phantom' | 'email' | 'other';
+  } | null>(null);
+  const [spectatorNotice, setSpectatorNotice] = useState<string | null>(null);
+  const [walletNetwork, setWalletNetwork] = useState<NetworkInfo | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [blockedMove, setBlockedMove] = useState<BlockedMove | null>(null);
+  const [travelPath, setTravelPath] = useState<TilePosition[]>([]);
+  const [exploration, setExploration] = useState<ExplorationMap | null>(null);
+  const [explorationRevision, setExplorationRevision] = useState(0);
+  const moveLockedUntil = useRef(0);
+  // Proof of the wallet sign-in, needed to start the game session
+  const authToken = useRef<string | undefined>(undefined);
+  // The wallet the player signed in with (none for email logins)
+  const connectedWallet = useRef<WalletAdapter | undefined>(undefined);
+  const explorationRef = useRef(exploration);
+  explorationRef.current = exploration;
 
-  // Load user data from persistence
+  // Fetch the treasure listing from the server, again whenever the spawned treasures change
   useEffect(() => {
-    if (address) {
-      // Try to load user data
-      const userData = userService.getUserById(address);
-      console.log('Loading user data:', userData);
-      
-      if (userData) {
-        // Restore user data
-        setCurrentUser(userData);
-        setCollectedTreasures(userData.treasures || []);
-        setScore(userData.score || 0);
-        
-        // Mark all treasures as opened
-        const opened: {[key: string]: boolean} = {};
-        userData.treasures.forEach(t => {
-          const key = `${t.x}-${t.y}`;
-          opened[key] = true;
-        });
-        setOpenedTreasures(opened);
-      } else {
-        // Create new user
-        const newUser = userService.saveUser({
-          id: address,
-          walletAddress: walletType !== 'email' ? address : undefined,
-          email: walletType === 'email' ? address.replace('email:', '') : undefined,
-          walletType,
-          treasures: [],
-          score: 0
-        });
-        setCurrentUser(newUser);
-      }
+    if (!address) return;
+    let cancelled = false;
+    const delay = nextTreasureChange === null ? 0 : Math.max(0, nextTreasureChange - Date.now());
+    const timer = setTimeout(() => {
+      gameApi.listTreasures()
+        .then(listing => {
+          if (cancelled) return;
+          setTreasures(listing.treasures);
+          setNextTreasureChange(listing.nextChangeAt);
+        })
+        .catch(error => console.error('Error loading treasures:', error));
+    }, delay);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [address, nextTreasureChange]);
+
+  // Clear the blocked-move indicator after a short flash
+  useEffect(() => {
+    if (!blockedMove) return;
+    const timer = setTimeout(() => setBlockedMove(null), 800);
+    return () => clearTimeout(timer);
+  }, [blockedMove]);
+
+  // Restore the fog of war (new users start fully unexplored). The profile
+  // itself is loaded by the store.
+  useEffect(() => {
+    if (!address) return;
+    let cancelled = false;
+    userService.getExploration(address)
+      .then(encoded => {
+        if (!cancelled) setExploration(ExplorationMap.decode(encoded, GRID_SIZE));
+      })
+      .catch(error => console.error('Error loading exploration:', error));
+    return () => { cancelled = true; };
+  }, [address]);
+
+  // Keep the camera on the player unless the user has panned away
+  useEffect(() => {
+    if (!player) return;
+    setCamera(c => c.following ? centerOn(c, player, GRID_SIZE) : c);
+  }, [player]);
+
+  const handleRecenter = () => {
+    if (!player) return;
+    setCamera(c => centerOn({ ...c, following: true }, player, GRID_SIZE));
+  };
+
+  // Reveal the area around the player as they move
+  useEffect(() => {
+    if (!player || !exploration) return;
+    if (exploration.reveal(player.x, player.y)) {
+      setExplorationRevision(exploration.revision);
     }
-  }, [address, walletType]);
+  }, [player, exploration]);
+
+  // Persist the exploration map, batched so walking doesn't write on every
+  // step, and share it with other tabs on the account
+  useEffect(() => {
+    if (!address || !exploration || spectating) return;
+    const timer = setTimeout(() => {
+      const encoded = exploration.encode();
+      userService.saveExploration(address, encoded)
+        .then(() => tabSync.post({ type: 'exploration', accountId: address, exploration: encoded }))
+        .catch(error => console.error('Error saving exploration:', error));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [address, exploration, explorationRevision, spectating]);
+
+  // Follow other tabs on the same account. Spectators mirror the playing tab;
+  // a tab that is playing too only takes over the collection history.
+  useEffect(() => {
+    if (!address) return;
+    return tabSync.subscribe(message => {
+      if (message.accountId !== address) return;
+      const state = store.getState();
+      const watching = !!state.account?.spectating;
+
+      switch (message.type) {
+        case 'presence':
+          if (!watching && state.position) {
+            tabSync.post({ type: 'playing', accountId: address, position: state.position, events: state.events });
+          }
+          break;
+        case 'state':
+          store.dispatch({ type: 'remoteState', events: message.events, position: watching ? message.position : undefined });
+          break;
+        case 'exploration': {
+          const map = explorationRef.current;
+          if (map && map.merge(ExplorationMap.decode(message.exploration, GRID_SIZE))) {
+            setExplorationRevision(map.revision);
+          }
+          break;
+        }
+        case 'left':
+          if (watching) setSpectatorNotice('The other tab has stopped playing.');
+          break;
+      }
+    });
+  }, [address, store]);
   
-  // When wallet connects, spawn player at random position
-  const handleConnect = (addr: string, type: 'metamask' | 'phantom' | 'email' | 'other') => {
+  // What to restore on the next login
+  const travelTarget = travelPath.length > 0 ? travelPath[travelPath.length - 1] : null;
+  const snapshot = useMemo((): Omit<SessionSnapshot, 'savedAt'> => ({
+    camera,
+    panels: { treasures: showTreasuresList, timeline: showTimeline },
+    travelTarget,
+  }), [camera, showTreasuresList, showTimeline, travelTarget]);
+  const snapshotRef = useRef(snapshot);
+  snapshotRef.current = snapshot;
+
+  const saveSnapshot = useCallback((userId: string) => {
+    userService.saveSessionState(userId, { ...snapshotRef.current, savedAt: new Date().toISOString() })
+      .catch(error => console.error('Error saving session state:', error));
+  }, []);
+
+  // Save the session state a moment after it settles, and when the page is closed
+  useEffect(() => {
+    if (!address || !session) return;
+    const timer = setTimeout(() => saveSnapshot(address), 1000);
+    return () => clearTimeout(timer);
+  }, [address, session, snapshot, saveSnapshot]);
+
+  useEffect(() => {
+    if (!address || !session) return;
+    const handlePageHide = () => saveSnapshot(address);
+    window.addEventListener("pagehide", handlePageHide);
+    return () => window.removeEventListener("pagehide", handlePageHide);
+  }, [address, session, saveSnapshot]);
+
+  // When wallet connects, offer to resume the last session if it's been a while
+  const handleConnect = async (
+    addr: string,
+    type: 'metamask' | 'phantom' | 'email' | 'other',
+    token?: string,
+    wallet?: WalletAdapter
+  ) => {
+    console.log(`Connected with ${wallet ? wallet.info.name : type}: ${addr}`);
+    setServerError(null);
+    authToken.current = token;
+    connectedWallet.current = wallet;
+
+    // Linked logins share the account's tabs and session state
+    let accountId = addr;
+    try {
+      const account = await userService.getUserById(addr);
+      if (account) accountId = account.id;
+    } catch (error) {
+      console.error('Error loading user data:', error);
+    }
+
+    const activeTab = await tabSync.findActiveTab(accountId);
+    if (activeTab) {
+      setSpectateOffer({ address: addr, walletType: type, tab: activeTab });
+      return;
+    }
+    await continueLogin(addr, type, accountId);
+  };
+
+  // Watch another tab play: no game session, nothing is sent or stored
+  const spectate = (offer: NonNullable<typeof spectateOffer>) => {
+    setSpectateOffer(null);
+    setSpectatorNotice(null);
+    setSpectatorLogin({ address: offer.address, walletType: offer.walletType });
+    store.dispatch({
+      type: 'login',
+      account: { id: offer.tab.accountId, walletType: offer.walletType, identities: [], spectating: true },
+      position: offer.tab.position,
+      events: offer.tab.events,
+    });
+    setCamera(createCamera(offer.tab.position, INITIAL_VISIBLE_TILES, GRID_SIZE));
+    watchWallet(offer.address);
+  };
+
+  // Follow the wallet the player signed in with: its network is shown, and
+  // disconnecting it or switching accounts ends the game (see the effect below)
+  const watchWallet = (addr: string) => {
+    if (!connectedWallet.current) return;
+    walletSessions.attach(connectedWallet.current, addr)
+      .catch(error => console.error('Error watching the wallet:', error));
+  };
+
+  const handleSwitchNetwork = () => {
+    walletSessions.switchNetwork()
+      .catch(error => setServerError(`Could not switch networks: ${error.message || error}`));
+  };
+
+  const continueLogin = async (addr: string, type: 'metamask' | 'phantom' | 'email' | 'other', accountId: string) => {
+    setSpectateOffer(null);
+    setSpectatorLogin(null);
+    setSpectatorNotice(null);
+
+    let lastSession: SessionSnapshot | null = null;
+    try {
+      lastSession = await userService.getSessionState(accountId);
+    } catch (error) {
+      console.error('Error loading session state:', error);
+    }
+
+    if (lastSession && needsResumePrompt(lastSession)) {
+      setResumeOffer({ address: addr, walletType: type, snapshot: lastSession });
+      return;
+    }
+    await startGame(addr, type, lastSession);
+  };
+
+  // Start a game session - the server places the player. With a snapshot the
+  // player continues where they left off, otherwise they start at the spawn point.
+  const startGame = async (
+    addr: string,
+    type: 'metamask' | 'phantom' | 'email' | 'other',
+    restore: SessionSnapshot | null
+  ) => {
     try {
       setIsLoading(true);
-      console.log(`Connected with ${type} wallet: ${addr}`);
+      setResumeOffer(null);
       
-      // Set address and wallet type
-      setAddress(addr);
-      setWalletType(type);
-      
-      // Create player at center of map
-      setPlayer({
-        x: Math.floor(GRID_SIZE / 2),
-        y: Math.floor(GRID_SIZE / 2),
-        address: addr,
+      const newSession = await gameApi.startSession(addr, type, restore !== null, authToken.current);
+      const { userId: accountId, identities, position, events: history } = newSession.state;
+
+      // For a linked login the server opens the account it's linked to
+      setSession(newSession);
+      watchWallet(addr);
+      store.dispatch({
+        type: 'login',
+        account: { id: accountId, walletType: type, identities },
+        position,
+        events: history,
       });
-      
-      // Loading complete
-      setIsLoading(false);
+
+      if (restore) {
+        const restored = restore.camera;
+        setCamera(restored.following ? centerOn(restored, position, GRID_SIZE) : restored);
+        setShowTreasuresList(restore.panels.treasures);
+        setShowTimeline(restore.panels.timeline);
+
+        // Pick an unfinished route back up from wherever the server placed us
+        if (restore.travelTarget) {
+          const items = selectPlayerItems(store.getState());
+          setTravelPath(findPath(position, restore.travelTarget, { items }) || []);
+        }
+      } else {
+        setCamera(createCamera(position, INITIAL_VISIBLE_TILES, GRID_SIZE));
+      }
     } catch (error) {
       console.error('Error connecting wallet:', error);
+      setServerError(error instanceof GameApiError
+        ? error.message
+        : 'Could not reach the game server. Is it running (npm run server)?');
+    } finally {
+      // Loading complete
       setIsLoading(false);
     }
   };
   
+  // Import a save: the server takes the collection history (only events it
+  // can vouch for), exploration is merged or replaced locally
+  const handleImportSave = async (save: string, mode: ImportMode, incoming: User): Promise<string> => {
+    if (!session || !address) throw new Error('Not connected');
+    const result = await session.importSave(save, mode);
+    store.dispatch({ type: 'historyReplaced', events: result.events });
+
+    const encoded = mode === 'replace'
+      ? incoming.exploration
+      : mergeExploration(exploration?.encode(), incoming.exploration);
+    const map = ExplorationMap.decode(encoded, GRID_SIZE);
+    setExploration(map);
+    // Saving normally keeps tiles explored elsewhere, which replacing must not
+    await userService.saveExploration(address, map.encode(), mode === 'replace');
+
+    return result.rejected > 0
+      ? `Save imported. ${result.rejected} find(s) could not be verified by the server and were skipped.`
+      : 'Save imported';
+  };
+
+  // Link another login. The server merges the account it belonged to, if
+  // any; that account's local exploration is merged in here too.
+  const handleLink = async (type: LinkedIdentity['type'], id: string, proof?: string): Promise<string> => {
+    if (!session || !address) throw new Error('Not connected');
+    const result = await session.link(type, id, proof);
+
+    const other = await userService.getUserById(id);
+    if (other && other.id !== address) {
+      setExploration(ExplorationMap.decode(mergeExploration(exploration?.encode(), other.exploration), GRID_SIZE));
+      await userService.removeUser(other.id);
+    }
+    store.dispatch({ type: 'historyReplaced', events: result.events, identities: result.identities });
+
+    return `Linked ${id.replace('email:', '')}. You can now sign in with it.`;
+  };
+
   // Handle logout
   const handleLogout = () => {
+    // Flush progress that hasn't been saved yet
+    if (address && exploration && !spectating) {
+      userService.saveExploration(address, exploration.encode())
+        .catch(error => console.error('Error saving exploration:', error));
+    }
+    if (address && session) {
+      saveSnapshot(address);
+    }
+
+    session?.end().catch(error => console.error('Error ending session:', error));
+
     // Clear local state
-    setAddress(null);
-    setWalletType('other');
-    setPlayer(null);
-    setScore(0);
-    setCollectedTreasures([]);
-    setOpenedTreasures({});
-    setCurrentUser(null);
+    walletSessions.detach();
+    setWalletNetwork(null);
+    authToken.current = undefined;
+    connectedWallet.current = undefined;
+    store.dispatch({ type: 'logout' });
+    setSession(null);
+    setTreasures([]);
+    setNextTreasureChange(null);
     setShowTreasuresList(false);
+    setShowTimeline(false);
+    setShowSaveFile(false);
+    setShowLinks(false);
+    setSpectatorLogin(null);
+    setSpectatorNotice(null);
+    setBlockedMove(null);
+    setTravelPath([]);
+    setExploration(null);
     
     // Log the logout action
     console.log('User logged out');
   };
 
+  // The server ends the session when the sign-in expires; log out then too
+  const logoutRef = useRef(handleLogout);
+  logoutRef.current = handleLogout;
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(() => {
+      logoutRef.current();
+      setServerError('Your session has expired. Please sign in again.');
+    }, Math.max(0, session.state.expiresAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  // Another account in the wallet has to sign in itself, so the game ends
+  useEffect(() => walletSessions.subscribe(event => {
+    if (event.type === 'network') {
+      setWalletNetwork(event.network);
+      return;
+    }
+    logoutRef.current();
+    setServerError(WALLET_END_MESSAGES[event.reason]);
+  }), []);
+
+  // Move the player onto an adjacent tile if the terrain allows it
+  const tryMoveTo = useCallback((targetX: number, targetY: number): boolean => {
+    if (!player || spectating) return false;
+
+    // Still crossing slow terrain (mountains, swamps)
+    if (Date.now() < moveLockedUntil.current) return false;
+    if (targetX === player.x && targetY === player.y) return false;
+
+    const check = checkTile(targetX, targetY, playerItems);
+    if (!check.allowed) {
+      setBlockedMove({ x: targetX, y: targetY, reason: check.reason || 'Blocked' });
+      return false;
+    }
+
+    // Expensive terrain keeps the player busy for extra steps
+    moveLockedUntil.current = Date.now() + (check.cost - 1) * STEP_DURATION_MS;
+    store.dispatch({ type: 'move', position: { x: targetX, y: targetY } });
+
+    // Move right away and let the server confirm; snap back if it disagrees
+    session?.move({ x: targetX, y: targetY }).catch(error => {
+      if (error instanceof GameApiError && error.position) {
+        store.dispatch({ type: 'move', position: error.position });
+        setTravelPath([]);
+      }
+      setBlockedMove({ x: targetX, y: targetY, reason: error.message || 'Move refused' });
+    });
+    return true;
+  }, [player, playerItems, session, store, spectating]);
+
+  // Claim the treasure the player is standing on. The canvas may report the
+  // same treasure more than once, so check the store's current state rather
+  // than what this render saw.
+  const handleCollect = useCallback((treasure: Treasure) => {
+    const treasureId = treasure.id;
+    if (!session || !treasureId || !selectCanClaim(store.getState(), treasure)) return;
+    store.dispatch({ type: 'claimStarted', treasureId });
+
+    // The server checks the position and decides the score
+    session.claim(treasureId)
+      .then(result => {
+        store.dispatch({ type: 'collect', treasure, event: result.event, events: result.events });
+        console.log(`Collected treasure: ${treasure.name} at ${treasure.x},${treasure.y} (+${result.event.points})`);
+      })
+      .catch(error => {
+        console.error('Error claiming treasure:', error);
+        store.dispatch({ type: 'claimFailed', treasureId });
+        setBlockedMove({ x: treasure.x, y: treasure.y, reason: error.message || 'Claim refused' });
+      });
+  }, [session, store]);
+
   // Handle player movement
   const handleMove = (dx: number, dy: number) => {
-    setPlayer((p) =>
-      p
-        ? {
-            ...p,
-            x: Math.max(0, Math.min(GRID_SIZE - 1, p.x + dx)),
-            y: Math.max(0, Math.min(GRID_SIZE - 1, p.y + dy)),
-          }
-        : p
+    if (!player) return;
+    tryMoveTo(
+      Math.max(0, Math.min(GRID_SIZE - 1, player.x + dx)),
+      Math.max(0, Math.min(GRID_SIZE - 1, player.y + dy))
     );
   };
 
+  // Plan a route to the clicked tile and start walking it
+  const handleTravel = (targetX: number, targetY: number) => {
+    if (!player || spectating) return;
+    const path = findPath(player, { x: targetX, y: targetY }, { items: playerItems });
+    if (!path) {
+      setTravelPath([]);
+      setBlockedMove({ x: targetX, y: targetY, reason: 'No route to there' });
+      return;
+    }
+    setTravelPath(path);
+  };
+
+  // Walk the planned route one tile at a time
+  useEffect(() => {
+    if (travelPath.length === 0) return;
+    const wait = Math.max(STEP_DURATION_MS, moveLockedUntil.current - Date.now());
+    const timer = setTimeout(() => {
+      const [next, ...rest] = travelPath;
+      setTravelPath(tryMoveTo(next.x, next.y) ? rest : []);
+    }, wait);
+    return () => clearTimeout(timer);
+  }, [travelPath, tryMoveTo]);
+
+  // Any keypress cancels an in-progress route
+  const isTraveling = travelPath.length > 0;
+  useEffect(() => {
+    if (!isTraveling) return;
+    const cancelTravel = () => setTravelPath([]);
+    window.addEventListener("keydown", cancelTravel);
+    return () => window.removeEventListener("keydown", cancelTravel);
+  }, [isTraveling]);
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black flex flex-col items-center justify-center p-8">
       <div className="w-full max-w-4xl">
@@ -149,23 +557,67 @@ function App() {
           <p className="text-gray-400">Find treasures in the magical realm!</p>
         </div>
 
-        {!address ? (
-          <div className="flex justify-center">
-            <WalletLogin onConnect={handleConnect} />
+        {dataError ? (
+          <div className="bg-red-900 text-white p-4 rounded-lg">
+            <h2 className="font-bold mb-2">The treasure map could not be loaded</h2>
+            <ul className="list-disc list-inside text-sm space-y-1">
+              {dataError.issues.map(issue => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
           </div>
         ) : isLoading ? (
           <div className="flex justify-center items-center py-20">
             <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
             <p className="ml-4 text-blue-500">Loading game data...</p>
           </div>
+        ) : resumeOffer ? (
+          <div className="flex justify-center">
+            <ResumePrompt
+              snapshot={resumeOffer.snapshot}
+              onResume={() => startGame(resumeOffer.address, resumeOffer.walletType, resumeOffer.snapshot)}
+              onStartFresh={() => startGame(resumeOffer.address, resumeOffer.walletType, null)}
+            />
+          </div>
+        ) : spectateOffer ? (
+          <div className="flex justify-center">
+            <SpectatePrompt
+              onSpectate={() => spectate(spectateOffer)}
+              onPlayHere={() => continueLogin(spectateOffer.address, spectateOffer.walletType, spectateOffer.tab.accountId)}
+            />
+          </div>
+        ) : !address ? (
+          <div className="flex flex-col items-center space-y-4">
+            {serverError && (
+              <div className="bg-red-900 text-white text-sm p-3 rounded-lg">{serverError}</div>
+            )}
+            <WalletLogin onConnect={handleConnect} />
+          </div>
         ) : (
           <div className="space-y-4">
+            {spectating && spectatorLogin && (
+              <div className="bg-blue-900 text-white text-sm p-3 rounded-lg flex justify-between items-center">
+                <span>👁 Watching this account play in another tab (read-only). {spectatorNotice}</span>
+                <button
+                  onClick={() => continueLogin(spectatorLogin.address, spectatorLogin.walletType, address)}
+                  className="bg-blue-600 hover:bg-blue-700 text-white py-1 px-3 rounded-lg"
+                >
+                  Play here
+                </button>
+              </div>
+            )}
             <ProfileBanner 
               address={address || ''}
               walletType={walletType}
+              wallet={connectedWallet.current?.info}
+              network={walletNetwork}
+              onSwitchNetwork={handleSwitchNetwork}
               score={score} 
               onLogout={handleLogout}
               onShowTreasuresList={() => setShowTreasuresList(true)}
+              onShowTimeline={() => setShowTimeline(true)}
+              onShowSaveFile={() => setShowSaveFile(true)}
+              onShowLinks={() => setShowLinks(true)}
               collectedTreasures={collectedTreasures}
             />
             <div className="relative">
@@ -173,67 +625,83 @@ function App() {
                 <GameCanvas 
                   player={player} 
                   treasures={treasures} 
-                  zoom={zoom} 
+                  camera={camera}
+                  onCameraChange={setCamera}
                   onMove={handleMove}
+                  onTravel={handleTravel}
+                  travelPath={travelPath}
+                  exploration={exploration}
+                  explorationRevision={explorationRevision}
+                  blockedMove={blockedMove}
                   openedTreasures={openedTreasures}
-                  onOpenTreasure={(treasure) => {
-                    // Mark treasure as opened using a unique key
-                    const treasureKey = `${treasure.x}-${treasure.y}`;
-                    setOpenedTreasures(prev => ({
-                      ...prev,
-                      [treasureKey]: true
-                    }));
-                    console.log(`Opened treasure at ${treasure.x},${treasure.y}`);
-                  }}
-                  onCollectTreasure={(treasure) => {
-                    const treasureKey = `${treasure.x}-${treasure.y}`;
-                    
-                    // Only collect treasure once
-                    if (!openedTreasures[treasureKey]) {
-                      // Calculate treasure value
-                      const treasureValue = calculateTreasureValue(treasure.rarity || 'Common');
-                      
-                      // Update local state
-                      setScore(prev => prev + treasureValue);
-                      setCollectedTreasures(prev => [...prev, treasure]);
-                      
-                      // Mark as opened
-                      setOpenedTreasures(prev => ({
-                        ...prev,
-                        [treasureKey]: true
-                      }));
-                      
-                      // Save to user's persistence
-                      if (address) {
-                        const updatedUser = userService.addTreasureToUser(address, treasure);
-                        if (updatedUser) {
-                          setCurrentUser(updatedUser);
-                        }
-                      }
-                      
-                      console.log(`Collected treasure: ${treasure.name} at ${treasure.x},${treasure.y}`);
-                    }
-                  }}
+                  onOpenTreasure={(treasure) => store.dispatch({ type: 'open', treasure })}
+                  onCollectTreasure={handleCollect}
                 />
               </div>
-              <div className="absolute bottom-4 right-4 bg-gray-800 rounded-lg p-2">
-                <ZoomSlider zoom={zoom} setZoom={setZoom} />
+              {player && (
+                <div className="absolute top-4 left-4 bg-gray-800 bg-opacity-90 rounded-lg p-2">
+                  <ProximityDetector reading={getProximity(player, treasures, openedTreasures)} />
+                </div>
+              )}
+              <div className="absolute bottom-4 right-4 bg-gray-800 rounded-lg p-2 flex items-end space-x-3">
+                <Minimap
+                  camera={camera}
+                  player={player}
+                  treasures={treasures}
+                  openedTreasures={openedTreasures}
+                  exploration={exploration}
+                  explorationRevision={explorationRevision}
+                  onJump={(x, y) => setCamera(c => centerOn({ ...c, following: false }, { x, y }, GRID_SIZE))}
+                  onTravel={handleTravel}
+                />
+                <ZoomSlider
+                  camera={camera}
+                  onZoom={(visibleTiles) => setCamera(c => zoomCamera(c, visibleTiles, GRID_SIZE))}
+                  onRecenter={handleRecenter}
+                />
               </div>
             </div>
 
             <div className="flex justify-between items-center text-sm text-gray-400 bg-gray-800 rounded-lg p-4">
               <div>
-                <span className="font-bold text-blue-400">Controls:</span> Use WASD or Arrow Keys to move, or click to move towards a location
+                <span className="font-bold text-blue-400">Controls:</span> Use WASD or Arrow Keys to move, or click a tile to travel there (any key stops). Scroll or pinch to zoom, drag to pan
               </div>
               <div>
-                <span className="font-bold text-blue-400">Tip:</span> Walk on treasures to collect them
+                <span className="font-bold text-blue-400">Tip:</span> Walk on treasures to collect them. Mountains and swamps slow you down, water needs a boat
               </div>
             </div>
             
+            {showSaveFile && currentUser && (
+              <SaveFilePanel
+                user={{ ...currentUser, events }}
+                exploration={exploration}
+                session={{ ...snapshot, savedAt: new Date().toISOString() }}
+                onImport={handleImportSave}
+                onClose={() => setShowSaveFile(false)}
+              />
+            )}
+
+            {showLinks && session && (
+              <LinkAccountPanel
+                accountId={address}
+                sessionId={session.id}
+                identities={account ? account.identities : []}
+                onLink={handleLink}
+                onClose={() => setShowLinks(false)}
+              />
+            )}
+
+            {showTimeline && (
+              <ActivityTimeline
+                events={events}
+                onClose={() => setShowTimeline(false)}
+              />
+            )}
+
             {/* Collected Treasures List Modal */}
             {showTreasuresList && (
               <CollectedTreasuresList 
-                treasures={collectedTreasures}
+                events={events}
                 onClose={() => setShowTreasuresList(false)}
               />
             )}
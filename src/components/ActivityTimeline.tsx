@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import ScoreBreakdown from './ScoreBreakdown';
+import { CollectionEvent } from '../types/game';
+import { groupByDay, groupBySession } from '../services/CollectionHistory';
+import { economy, getAwardLines } from '../services/Economy';
+
+interface ActivityTimelineProps {
+  events: CollectionEvent[];
+  onClose: () => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const ActivityTimeline: React.FC<ActivityTimelineProps> = ({ events, onClose }) => {
+  const days = useMemo(() => groupByDay(events), [events]);
+  const sessions = useMemo(() => groupBySession(events), [events]);
+  const activeEvents = economy.getActiveEvents(Date.now());
+  // The find whose score breakdown is open
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const findsPerSession = sessions.length > 0 ? events.length / sessions.length : 0;
+  const bestSession = sessions.reduce((best, s) => (s.points > best ? s.points : best), 0);
+  // Bars for points per day, scaled to the best day
+  const bestDay = days.reduce((best, d) => (d.points > best ? d.points : best), 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 p-6 rounded-xl shadow-2xl max-w-lg w-full mx-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 text-transparent bg-clip-text">
+            Activity
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+          >
+            ✕
+          </button>
+        </div>
+
+        {activeEvents.map(event => (
+          <div key={event.id} className="mb-3 text-sm text-yellow-300 bg-yellow-900 bg-opacity-40 rounded-lg px-3 py-2">
+            🎉 {event.name}: points x{event.multiplier} until {new Date(event.end).toLocaleString()}
+          </div>
+        ))}
+
+        {events.length === 0 ? (
+          <div className="text-center py-8 text-gray-400">
+            Nothing found yet. Your finds will show up here.
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+              <div className="bg-gray-700 bg-opacity-50 rounded-lg p-2">
+                <div className="text-xs text-gray-400">Sessions</div>
+                <div className="text-white font-bold">{sessions.length}</div>
+              </div>
+              <div className="bg-gray-700 bg-opacity-50 rounded-lg p-2">
+                <div className="text-xs text-gray-400">Finds / session</div>
+                <div className="text-white font-bold">{findsPerSession.toFixed(1)}</div>
+              </div>
+              <div className="bg-gray-700 bg-opacity-50 rounded-lg p-2">
+                <div className="text-xs text-gray-400">Best session</div>
+                <div className="text-yellow-400 font-bold">{bestSession}</div>
+              </div>
+            </div>
+
+            <div className="mb-4">
+              <div className="text-xs text-gray-400 mb-1">Points per day</div>
+              <div className="flex items-end h-16 space-x-1">
+                {days.map(day => (
+                  <div
+                    key={day.day}
+                    className="flex-1 bg-yellow-500 rounded-t"
+                    style={{ height: `${Math.max(4, bestDay > 0 ? (day.points / bestDay) * 100 : 0)}%` }}
+                    title={`${formatDay(day.day)}: +${day.points} (total ${day.totalPoints})`}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto pr-2">
+              {[...days].reverse().map(day => (
+                <div key={day.day} className="mb-3">
+                  <div className="flex justify-between text-sm text-gray-400 border-b border-gray-700 mb-1">
+                    <span>{formatDay(day.day)}</span>
+                    <span>+{day.points} · total {day.totalPoints}</span>
+                  </div>
+                  {[...day.events].reverse().map(event => (
+                    <div key={event.id}>
+                      <div
+                        className="flex items-center text-sm py-1 cursor-pointer hover:bg-gray-700"
+                        onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                      >
+                        <span className="text-gray-500 w-14">{formatTime(event.collectedAt)}</span>
+                        <span className="text-xl mr-2">{event.treasure.emoji}</span>
+                        <span className="flex-1 text-white truncate">{event.treasure.name || 'Mysterious Treasure'}</span>
+                        <span className="text-gray-400 mx-2">{event.x}, {event.y}</span>
+                        <span className="text-yellow-400">+{event.points}</span>
+                      </div>
+                      {expandedId === event.id && (
+                        <div className="ml-14 mb-2">
+                          <ScoreBreakdown lines={getAwardLines(event)} total={event.points} />
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActivityTimeline;
@@ -1,18 +1,19 @@
 import React, { useState } from 'react';
-import { Treasure } from './GameCanvas';
 import TreasureModal from './TreasureModal';
+import { getScore } from '../services/CollectionHistory';
+import { CollectionEvent } from '../types/game';
 
 interface CollectedTreasuresListProps {
-  treasures: Treasure[];
+  events: CollectionEvent[];
   onClose: () => void;
 }
 
-const CollectedTreasuresList: React.FC<CollectedTreasuresListProps> = ({ treasures, onClose }) => {
+const CollectedTreasuresList: React.FC<CollectedTreasuresListProps> = ({ events, onClose }) => {
   const [isVisible, setIsVisible] = useState(true);
-  const [selectedTreasure, setSelectedTreasure] = useState<Treasure | null>(null);
+  const [selectedEvent, setSelectedEvent] = useState<CollectionEvent | null>(null);
 
-  // Sort treasures by rarity (Legendary -> Common)
-  const sortedTreasures = [...treasures].sort((a, b) => {
+  // Sort finds by rarity (Legendary -> Common)
+  const sortedEvents = [...events].sort(({ treasure: a }, { treasure: b }) => {
     const rarityOrder: { [key: string]: number } = {
       'Legendary': 0,
       'Epic': 1,
@@ -27,22 +28,6 @@ const CollectedTreasuresList: React.FC<CollectedTreasuresListProps> = ({ treasur
     return rarityOrder[rarityA] - rarityOrder[rarityB];
   });
 
-  // Get the total value of all treasures
-  const getTotalValue = () => {
-    const valueMap: {[key: string]: number} = {
-      'Common': 10,
-      'Uncommon': 50,
-      'Rare': 200,
-      'Epic': 500,
-      'Legendary': 1000
-    };
-    
-    return treasures.reduce((total, treasure) => {
-      const rarity = treasure.rarity || 'Common';
-      return total + (valueMap[rarity] || 10);
-    }, 0);
-  };
-
   // Get color class for rarity
   const getRarityColorClass = (rarity?: string) => {
     switch(rarity) {
@@ -74,36 +59,37 @@ const CollectedTreasuresList: React.FC<CollectedTreasuresListProps> = ({ treasur
 
         <div className="mb-4 flex justify-between items-center">
           <div className="text-sm text-gray-400">
-            Total treasures: <span className="text-white">{treasures.length}</span>
+            Total treasures: <span className="text-white">{events.length}</span>
           </div>
           <div className="text-sm text-gray-400">
-            Total value: <span className="text-yellow-400 font-bold">{getTotalValue()} gold coins</span>
+            Total value: <span className="text-yellow-400 font-bold">{getScore(events)} gold coins</span>
           </div>
         </div>
 
-        {treasures.length === 0 ? (
+        {events.length === 0 ? (
           <div className="text-center py-8 text-gray-400">
             No treasures collected yet. Explore the map to find some!
           </div>
         ) : (
           <div className="max-h-96 overflow-y-auto pr-2 scrollbar-thin scrollbar-thumb-gray-600 scrollbar-track-gray-800">
-            {sortedTreasures.map((treasure, index) => (
+            {sortedEvents.map(event => (
               <div 
-                key={`${treasure.id || index}-${treasure.x}-${treasure.y}`}
+                key={event.id}
                 className="bg-gray-700 bg-opacity-50 p-3 rounded-lg mb-2 flex items-center cursor-pointer hover:bg-gray-600 transition-colors"
-                onClick={() => setSelectedTreasure(treasure)}
+                onClick={() => setSelectedEvent(event)}
               >
-                <div className="text-3xl mr-3">{treasure.emoji}</div>
+                <div className="text-3xl mr-3">{event.treasure.emoji}</div>
                 <div className="flex-1">
-                  <div className="font-bold text-white">{treasure.name || "Mysterious Treasure"}</div>
-                  <div className="text-sm text-gray-300 truncate">{treasure.description || "An ancient artifact"}</div>
+                  <div className="font-bold text-white">{event.treasure.name || "Mysterious Treasure"}</div>
+                  <div className="text-sm text-gray-300 truncate">{event.treasure.description || "An ancient artifact"}</div>
                   <div className="text-xs flex justify-between mt-1">
-                    <span className={`${getRarityColorClass(treasure.rarity)}`}>
-                      {treasure.rarity || "Common"}
+                    <span className={`${getRarityColorClass(event.treasure.rarity)}`}>
+                      {event.treasure.rarity || "Common"}
                     </span>
                     <span className="text-gray-400">
-                      Location: {treasure.x}, {treasure.y}
+                      Location: {event.treasure.x}, {event.treasure.y}
                     </span>
+                    <span className="text-yellow-400">+{event.points}</span>
                   </div>
                 </div>
               </div>
@@ -122,10 +108,11 @@ const CollectedTreasuresList: React.FC<CollectedTreasuresListProps> = ({ treasur
       </div>
 
       {/* Treasure Modal */}
-      {selectedTreasure && (
+      {selectedEvent && (
         <TreasureModal
-          treasure={selectedTreasure}
-          onClose={() => setSelectedTreasure(null)}
+          treasure={selectedEvent.treasure}
+          award={selectedEvent}
+          onClose={() => setSelectedEvent(null)}
         />
       )}
     </div>
@@ -1,86 +1,179 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { AuthSession, gameApi } from '../services/GameApi';
+
+// Links in account emails come back to the app with one of these in the query
+export interface EmailLink {
+  verify?: string;
+  reset?: string;
+  forgot?: boolean;
+}
+
+// Read (and drop from the address bar) a link from an account email
+export function readEmailLink(): EmailLink | null {
+  const params = new URLSearchParams(window.location.search);
+  const link: EmailLink = {
+    verify: params.get('verify') || undefined,
+    reset: params.get('reset') || undefined,
+    forgot: params.has('forgot') || undefined,
+  };
+  if (!link.verify && !link.reset && !link.forgot) return null;
+  ['verify', 'reset', 'forgot'].forEach(name => params.delete(name));
+  const query = params.toString();
+  window.history.replaceState(null, '', window.location.pathname + (query ? `?${query}` : ''));
+  return link;
+}
+
+type Mode = 'login' | 'register' | 'forgot' | 'reset';
+
+const TITLES: {[mode in Mode]: string} = {
+  login: 'Login with Email',
+  register: 'Create an Account',
+  forgot: 'Reset your Password',
+  reset: 'Choose a New Password',
+};
+
+// Checked here to answer early; must match MIN_PASSWORD_LENGTH in server/accounts.ts
+const MIN_PASSWORD_LENGTH = 8;
 
 interface EmailLoginProps {
-  onLogin: (email: string) => void;
+  onLogin: (auth: AuthSession) => void;
   onCancel: () => void;
+  link?: EmailLink | null;
 }
 
-const EmailLogin: React.FC<EmailLoginProps> = ({ onLogin, onCancel }) => {
+const EmailLogin: React.FC<EmailLoginProps> = ({ onLogin, onCancel, link }) => {
+  const [mode, setMode] = useState<Mode>(link?.reset ? 'reset' : link?.forgot ? 'forgot' : 'login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    // Simple validation
-    if (!email.trim()) {
-      setError('Email is required');
-      return;
+  // Confirm the address from a verification link right away
+  const verifyToken = link?.verify;
+  useEffect(() => {
+    if (!verifyToken) return;
+    setIsLoading(true);
+    gameApi.verifyEmail(verifyToken)
+      .then(result => {
+        setEmail(result.email);
+        setNotice('Your email is confirmed. Sign in to start playing.');
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'The link could not be checked'))
+      .finally(() => setIsLoading(false));
+  }, [verifyToken]);
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError('');
+    setNotice('');
+    setPassword('');
+  };
+
+  const validate = (): string | null => {
+    if (mode !== 'reset') {
+      if (!email.trim()) return 'Email is required';
+      if (!email.includes('@') || !email.includes('.')) return 'Please enter a valid email address';
     }
-    
-    if (!email.includes('@') || !email.includes('.')) {
-      setError('Please enter a valid email address');
-      return;
+    if (mode === 'login' && !password) return 'Password is required';
+    if ((mode === 'register' || mode === 'reset') && password.length < MIN_PASSWORD_LENGTH) {
+      return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
     }
-    
-    if (!password.trim() || password.length < 6) {
-      setError('Password must be at least 6 characters');
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const problem = validate();
+    if (problem) {
+      setError(problem);
       return;
     }
-    
-    // Clear any previous errors
+
     setError('');
+    setNotice('');
     setIsLoading(true);
-    
-    // In a real app, this would call an authentication API
-    // For this demo, we'll simulate a successful login
-    setTimeout(() => {
+    try {
+      if (mode === 'login') {
+        onLogin(await gameApi.login(email, password));
+        return;
+      }
+      if (mode === 'register') {
+        await gameApi.register(email, password);
+        switchMode('login');
+        setNotice('Check your inbox for a link to confirm your address, then sign in.');
+      } else if (mode === 'forgot') {
+        await gameApi.requestPasswordReset(email);
+        switchMode('login');
+        setNotice('If there is an account for that address, we sent it a link to reset the password.');
+      } else if (link?.reset) {
+        const result = await gameApi.resetPassword(link.reset, password);
+        setEmail(result.email);
+        switchMode('login');
+        setNotice('Your password is changed. Sign in with the new one.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
       setIsLoading(false);
-      onLogin(email);
-    }, 800);
+    }
   };
 
+  const submitLabel = isLoading
+    ? 'Please wait...'
+    : { login: 'Login', register: 'Create Account', forgot: 'Send Reset Link', reset: 'Set Password' }[mode];
+
   return (
     <div className="bg-gray-900 border border-gray-800 rounded-lg p-6 shadow-lg w-full max-w-md">
-      <h2 className="text-xl text-white font-bold mb-4">Login with Email</h2>
-      
+      <h2 className="text-xl text-white font-bold mb-4">{TITLES[mode]}</h2>
+
       {error && (
         <div className="bg-red-900 text-white p-3 rounded mb-4 text-sm">
           {error}
         </div>
       )}
-      
-      <form onSubmit={handleSubmit}>
-        <div className="mb-4">
-          <label className="block text-gray-400 mb-2" htmlFor="email">
-            Email
-          </label>
-          <input
-            id="email"
-            type="email"
-            className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-white focus:outline-none focus:border-blue-500"
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            disabled={isLoading}
-          />
-        </div>
-        
-        <div className="mb-6">
-          <label className="block text-gray-400 mb-2" htmlFor="password">
-            Password
-          </label>
-          <input
-            id="password"
-            type="password"
-            className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-white focus:outline-none focus:border-blue-500"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            disabled={isLoading}
-          />
+
+      {notice && (
+        <div className="bg-blue-900 text-white p-3 rounded mb-4 text-sm">
+          {notice}
         </div>
-        
+      )}
+
+      <form onSubmit={handleSubmit}>
+        {mode !== 'reset' && (
+          <div className="mb-4">
+            <label className="block text-gray-400 mb-2" htmlFor="email">
+              Email
+            </label>
+            <input
+              id="email"
+              type="email"
+              className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-white focus:outline-none focus:border-blue-500"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+        )}
+
+        {mode !== 'forgot' && (
+          <div className="mb-6">
+            <label className="block text-gray-400 mb-2" htmlFor="password">
+              {mode === 'reset' ? 'New password' : 'Password'}
+            </label>
+            <input
+              id="password"
+              type="password"
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-white focus:outline-none focus:border-blue-500"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+        )}
+
         <div className="flex justify-between">
           <button
             type="button"
@@ -90,16 +183,33 @@ const EmailLogin: React.FC<EmailLoginProps> = ({ onLogin, onCancel }) => {
           >
             Cancel
           </button>
-          
+
           <button
             type="submit"
             className="bg-blue-600 text-white rounded px-4 py-2 hover:bg-blue-700 transition"
             disabled={isLoading}
           >
-            {isLoading ? 'Logging in...' : 'Login'}
+            {submitLabel}
           </button>
         </div>
       </form>
+
+      <div className="flex justify-between mt-4 text-sm">
+        {mode === 'login' ? (
+          <>
+            <button className="text-blue-400 hover:text-blue-300" onClick={() => switchMode('register')} disabled={isLoading}>
+              Create an account
+            </button>
+            <button className="text-blue-400 hover:text-blue-300" onClick={() => switchMode('forgot')} disabled={isLoading}>
+              Forgot password?
+            </button>
+          </>
+        ) : (
+          <button className="text-blue-400 hover:text-blue-300" onClick={() => switchMode('login')} disabled={isLoading}>
+            Back to login
+          </button>
+        )}
+      </div>
     </div>
   );
 };
@@ -1,6 +1,12 @@
 import React, { useRef, useEffect, useState } from "react";
 import TreasureModal from "./TreasureModal";
-import treasureData from "../data/treasureData.json";
+import { world } from "../services/WorldGenerator";
+import { TilePosition } from "../services/Pathfinder";
+import { tileRenderer } from "../services/TileRenderer";
+import { ExplorationMap } from "../services/ExplorationMap";
+import { isTreasureVisible } from "../services/TreasureVisibility";
+import { Treasure } from "../types/game";
+import { Camera, getViewport, panCamera, screenToWorld, zoomCamera } from "../services/Camera";
 
 // For debugging
 const DEBUG = true;
@@ -11,163 +17,67 @@ export interface Player {
   address: string;
 }
 
-export interface Treasure {
+export type { Treasure };
+
+// A move the terrain refused - flashed on the target tile
+export interface BlockedMove {
   x: number;
   y: number;
-  col?: number;
-  row?: number;
-  emoji: string;
-  id?: string;
-  name?: string;
-  description?: string;
-  rarity?: string;
-  biome?: string;
-  visibility?: 'all' | 'detail';
+  reason: string;
 }
 
 interface GameCanvasProps {
   player: Player | null;
   treasures: Treasure[];
-  zoom: number;
+  camera: Camera;
+  onCameraChange: (update: (camera: Camera) => Camera) => void;
   onMove: (dx: number, dy: number) => void;
+  onTravel: (x: number, y: number) => void;
   onCollectTreasure?: (treasure: Treasure) => void;
   onOpenTreasure?: (treasure: Treasure) => void;
   openedTreasures: {[key: string]: boolean};
+  blockedMove?: BlockedMove | null;
+  travelPath?: TilePosition[];
+  exploration?: ExplorationMap | null;
+  explorationRevision?: number;
 }
 
-const GRID_SIZE = 500;
-const BASE_TILE_SIZE = 24; // Base size for tiles
-
-// Realistic biome colors based on our data
-const BIOME_COLORS: {[key: string]: string} = {
-  forest: '#1B5E20',      // Dark green
-  desert: '#FBC02D',      // Sandy yellow
-  mountain: '#795548',    // Brown
-  water: '#1976D2',       // Blue
-  plains: '#8BC34A',      // Light green
-  beach: '#FFD54F',       // Light sand
-  grassland: '#7CB342',   // Mid green
-  swamp: '#4E342E',       // Dark brown
-};
-
-// Noise variation colors for natural look
-const VARIATION_COLORS: {[key: string]: string[]} = {
-  forest: ['#1B5E20', '#2E7D32', '#388E3C', '#43A047', '#4CAF50'],
-  desert: ['#FBC02D', '#F9A825', '#F57F17', '#FFB300', '#FFCA28'],
-  mountain: ['#795548', '#6D4C41', '#5D4037', '#8D6E63', '#A1887F'],
-  water: ['#1976D2', '#1565C0', '#0D47A1', '#2196F3', '#42A5F5'],
-  plains: ['#8BC34A', '#7CB342', '#689F38', '#9CCC65', '#AED581'],
-  beach: ['#FFD54F', '#FFCA28', '#FFC107', '#FFE082', '#FFECB3'],
-  grassland: ['#7CB342', '#689F38', '#558B2F', '#8BC34A', '#9CCC65'],
-  swamp: ['#4E342E', '#5D4037', '#6D4C41', '#3E2723', '#4E342E']
-};
-
-// Biome distribution map - deterministic based on coordinates
-const BIOME_SIZES = {
-  continentSize: 150,    // Size of main land masses
-  mountainSize: 50,      // Size of mountain ranges
-  forestSize: 40,        // Size of forests
-  desertSize: 60,        // Size of deserts
-  lakeSize: 30,          // Size of lakes
-  swampSize: 25          // Size of swamps
-};
-
-// Helper to get a tile color with realistic biome patterns
-function getTileColor(x: number, y: number, time: number = 0, zoom: number) {
-  // Create a deterministic seed based on coordinates
-  const seed = (x * 73856093 ^ y * 19349663);
-  
-  // Use Perlin-like noise function (simplified) for realistic terrain generation
-  const noise1 = Math.sin(x * 0.05) * Math.cos(y * 0.05);
-  const noise2 = Math.sin(x * 0.02 + y * 0.03) * Math.cos(y * 0.01 - x * 0.04);
-  const noise3 = Math.sin(x * 0.01 - y * 0.02) * Math.cos(y * 0.03 + x * 0.01);
-  
-  // Combine noise functions for more natural patterns
-  const combinedNoise = (noise1 + noise2 + noise3) / 3;
-  
-  // Determine biome type based on noise and position
-  // Water for large areas that are very negative in noise
-  if (combinedNoise < -0.4) {
-    // Deep water areas
-    const depthVariation = Math.abs(seed % 5);
-    return VARIATION_COLORS['water'][depthVariation];
-  }
-  
-  // Mountains for very positive noise values
-  if (combinedNoise > 0.5) {
-    const heightVariation = Math.abs(seed % 5);
-    return VARIATION_COLORS['mountain'][heightVariation];
-  }
-  
-  // Desert in one quadrant of the map
-  if (x > GRID_SIZE * 0.6 && y < GRID_SIZE * 0.4 && combinedNoise > -0.2) {
-    const sandVariation = Math.abs(seed % 5);
-    return VARIATION_COLORS['desert'][sandVariation];
-  }
-  
-  // Forest in another quadrant
-  if (x < GRID_SIZE * 0.4 && y < GRID_SIZE * 0.4 && combinedNoise > -0.2) {
-    const forestVariation = Math.abs(seed % 5);
-    return VARIATION_COLORS['forest'][forestVariation];
-  }
-  
-  // Swamp in lower left
-  if (x < GRID_SIZE * 0.3 && y > GRID_SIZE * 0.7 && combinedNoise > -0.3 && combinedNoise < 0.2) {
-    const swampVariation = Math.abs(seed % 5);
-    return VARIATION_COLORS['swamp'][swampVariation];
-  }
-  
-  // Beach near water
-  if (combinedNoise >= -0.4 && combinedNoise < -0.25) {
-    const beachVariation = Math.abs(seed % 5);
-    return VARIATION_COLORS['beach'][beachVariation];
-  }
-  
-  // Plains in middle ranges of noise
-  if (combinedNoise >= -0.25 && combinedNoise < 0.1) {
-    const plainsVariation = Math.abs(seed % 5);
-    return VARIATION_COLORS['plains'][plainsVariation];
-  }
-  
-  // Grassland for the rest
-  const grassVariation = Math.abs(seed % 5);
-  return VARIATION_COLORS['grassland'][grassVariation];
+const GRID_SIZE = world.size;
+const CANVAS_SIZE = 1000; // Canvas edge in pixels, independent of zoom
+const DRAG_THRESHOLD = 5; // Pixels a pointer must move before a click becomes a drag
+const WHEEL_ZOOM_SPEED = 0.0015;
+
+// Map a pointer position to canvas pixels (the canvas is scaled down by CSS)
+function toCanvasPoint(canvas: HTMLCanvasElement, clientX: number, clientY: number) {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: (clientX - rect.left) * (canvas.width / rect.width),
+    y: (clientY - rect.top) * (canvas.height / rect.height),
+  };
 }
 
-
 const GameCanvas: React.FC<GameCanvasProps> = ({ 
   player, 
   treasures, 
-  zoom, 
+  camera, 
+  onCameraChange,
   onMove, 
+  onTravel,
   onCollectTreasure,
   onOpenTreasure,
-  openedTreasures
+  openedTreasures,
+  blockedMove,
+  travelPath = [],
+  exploration,
+  explorationRevision
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [selectedTreasure, setSelectedTreasure] = useState<Treasure | null>(null);
-  const [animationTime, setAnimationTime] = useState<number>(0);
-  const requestRef = useRef<number | undefined>(undefined);
-
-  // Animation loop for psychedelic effects
-  useEffect(() => {
-    if (zoom > 10) return; // Only animate in close-up views
-    
-    let animationFrameId: number;
-    let startTime = Date.now();
-
-    const animate = () => {
-      setAnimationTime(Date.now() - startTime);
-      requestRef.current = requestAnimationFrame(animate);
-    };
-
-    animate();
-    return () => {
-      if (requestRef.current) {
-        cancelAnimationFrame(requestRef.current);
-      }
-    };
-  }, [zoom]);
+  // Active pointers (mouse or touches) in canvas pixels
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef({ startX: 0, startY: 0, dragged: false, pinchDistance: 0 });
+  const onCollectRef = useRef(onCollectTreasure);
+  onCollectRef.current = onCollectTreasure;
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -175,73 +85,68 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
 
-    // Fixed visible area based on zoom scale
-    let visibleTiles = 500;
-    if (zoom === 100) visibleTiles = 500;
-    else if (zoom === 50) visibleTiles = 250;
-    else if (zoom === 20) visibleTiles = 100;
-    else if (zoom === 10) visibleTiles = 50;
-    else if (zoom === 2) visibleTiles = 10;
-
-    // Calculate tile size based on zoom level to maintain canvas size
-    let tileSize = BASE_TILE_SIZE * (500 / visibleTiles);
-    if (zoom === 2) {
-      tileSize = BASE_TILE_SIZE * 5; // Make tiles 5 times bigger for closest zoom
+    // Visible tiles come from the camera; the canvas itself never changes size
+    const view = getViewport(camera, CANVAS_SIZE, GRID_SIZE);
+    const { startX, startY, endX, endY, tileSize } = view;
+    if (canvas.width !== CANVAS_SIZE || canvas.height !== CANVAS_SIZE) {
+      canvas.width = CANVAS_SIZE;
+      canvas.height = CANVAS_SIZE;
     }
-    const half = Math.floor(visibleTiles / 2);
-    const startX = Math.max(0, player.x - half);
-    const startY = Math.max(0, player.y - half);
-    const endX = Math.min(GRID_SIZE, startX + visibleTiles);
-    const endY = Math.min(GRID_SIZE, startY + visibleTiles);
-
-    // Canvas size
-    canvas.width = (endX - startX) * tileSize;
-    canvas.height = (endY - startY) * tileSize;
 
-    // Draw grid with nature colors
+    // Composite cached terrain chunks for the visible area. The camera sits
+    // between tiles, so shift everything by the fractional part.
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    for (let x = startX; x < endX; x++) {
-      for (let y = startY; y < endY; y++) {
-        ctx.fillStyle = getTileColor(x, y, animationTime, zoom);
-        ctx.fillRect(
-          (x - startX) * tileSize,
-          (y - startY) * tileSize,
-          tileSize,
-          tileSize
-        );
-        ctx.strokeStyle = "#222";
-        ctx.strokeRect(
-          (x - startX) * tileSize,
-          (y - startY) * tileSize,
-          tileSize,
-          tileSize
-        );
-      }
+    ctx.save();
+    ctx.translate((startX - view.left) * tileSize, (startY - view.top) * tileSize);
+    tileRenderer.drawTerrain(ctx, startX, startY, endX, endY, tileSize);
+    if (exploration) {
+      tileRenderer.drawFog(ctx, exploration, startX, startY, endX, endY, tileSize);
+    }
+
+    // Preview the planned route as a dotted line ending in a target ring
+    if (travelPath.length > 0) {
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+      ctx.lineWidth = Math.max(1, tileSize / 8);
+      ctx.setLineDash([Math.max(2, tileSize / 4), Math.max(2, tileSize / 4)]);
+      ctx.beginPath();
+      ctx.moveTo((player.x - startX + 0.5) * tileSize, (player.y - startY + 0.5) * tileSize);
+      travelPath.forEach(step => {
+        ctx.lineTo((step.x - startX + 0.5) * tileSize, (step.y - startY + 0.5) * tileSize);
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      const target = travelPath[travelPath.length - 1];
+      ctx.strokeStyle = '#FACC15';
+      ctx.beginPath();
+      ctx.arc(
+        (target.x - startX + 0.5) * tileSize,
+        (target.y - startY + 0.5) * tileSize,
+        Math.max(tileSize / 2, 4),
+        0,
+        Math.PI * 2
+      );
+      ctx.stroke();
+      ctx.lineWidth = 1;
     }
 
     // Draw treasures with highlight and make them more visible
     treasures.forEach((treasure) => {
-      const { x, y, emoji, visibility } = treasure;
+      const { x, y, emoji } = treasure;
       
       // Only show treasures that are in the visible area
       if (x >= startX && x < endX && y >= startY && y < endY) {
-        // Create unique key for this treasure
-        const treasureKey = `${x}-${y}`;
-
         // Check if player is on this tile
         const isPlayerHere = player.x === x && player.y === y;
 
-        // Check if treasure has been opened
-        const isOpened = openedTreasures[treasureKey];
-
-        // Always show treasures
-        const shouldShowTreasure = true;
+        // Treasures stay hidden under the fog of war, and 'detail' treasures
+        // only show up when the player is searching close by
+        const shouldShowTreasure =
+          (!exploration || exploration.isExplored(x, y)) &&
+          isTreasureVisible(treasure, player, camera.visibleTiles);
         
         // Only draw treasures that should be visible at this zoom level
         if (shouldShowTreasure) {
-          // Check if player is on this tile - this is the only case we highlight
-          const isClickable = (zoom <= 10) && !isOpened;
-          
           // Only highlight the treasure if player is on it
           if (isPlayerHere) {
             // Simple subtle highlight for player location
@@ -268,22 +173,6 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       }
     });
 
-    // Check for treasure collection and open modal when player is on a treasure
-    const playerPos = { x: player.x, y: player.y };
-    const treasureAtPlayerPos = treasures.find(treasure => 
-      treasure.x === playerPos.x && treasure.y === playerPos.y
-    );
-    
-    // Automatically open treasure modal when player is on a treasure
-    if (treasureAtPlayerPos) {
-      setSelectedTreasure(treasureAtPlayerPos);
-      
-      // Also trigger the collection if that callback exists
-      if (onCollectTreasure) {
-        onCollectTreasure(treasureAtPlayerPos);
-      }
-    }
-
     // Draw player with glow effect
     if (player.x >= startX && player.x < endX && player.y >= startY && player.y < endY) {
       // Add glow effect
@@ -322,60 +211,144 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       ctx.strokeStyle = "#fff";
       ctx.stroke();
     }
-  }, [player, treasures, zoom]);
 
-  // Handle canvas click for movement instead of treasure collection
-  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (DEBUG) console.log('Canvas clicked!');
-    if (!player || !canvasRef.current) {
-      if (DEBUG) console.log('Missing player or canvas ref');
-      return;
+    // Flash the tile the player tried to enter but couldn't
+    if (blockedMove) {
+      const bx = (blockedMove.x - startX) * tileSize;
+      const by = (blockedMove.y - startY) * tileSize;
+      if (blockedMove.x >= startX && blockedMove.x < endX && blockedMove.y >= startY && blockedMove.y < endY) {
+        ctx.fillStyle = 'rgba(220, 38, 38, 0.5)';
+        ctx.fillRect(bx, by, tileSize, tileSize);
+        ctx.strokeStyle = '#DC2626';
+        ctx.lineWidth = Math.max(2, tileSize / 8);
+        ctx.beginPath();
+        ctx.moveTo(bx + tileSize * 0.2, by + tileSize * 0.2);
+        ctx.lineTo(bx + tileSize * 0.8, by + tileSize * 0.8);
+        ctx.moveTo(bx + tileSize * 0.8, by + tileSize * 0.2);
+        ctx.lineTo(bx + tileSize * 0.2, by + tileSize * 0.8);
+        ctx.stroke();
+        ctx.lineWidth = 1;
+      }
+    }
+    ctx.restore();
+
+    if (blockedMove) {
+      // Reason banner at the top of the canvas
+      const fontSize = Math.max(16, canvas.width / 40);
+      ctx.font = `bold ${fontSize}px sans-serif`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "top";
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillRect(0, 0, canvas.width, fontSize * 2);
+      ctx.fillStyle = '#FCA5A5';
+      ctx.fillText(blockedMove.reason, canvas.width / 2, fontSize / 2);
+    }
+  }, [player, treasures, camera, blockedMove, travelPath, exploration, explorationRevision]);
+
+  // Check for treasure collection and open modal when player steps on a treasure
+  useEffect(() => {
+    if (!player) return;
+    const treasureAtPlayerPos = treasures.find(treasure => 
+      treasure.x === player.x && treasure.y === player.y
+    );
+    
+    // Automatically open treasure modal when player is on a treasure
+    if (treasureAtPlayerPos) {
+      setSelectedTreasure(treasureAtPlayerPos);
+      
+      // Also trigger the collection if that callback exists
+      if (onCollectRef.current) {
+        onCollectRef.current(treasureAtPlayerPos);
+      }
     }
+  }, [player, treasures]);
+
+  // Mouse-wheel zoom centred on the cursor. React registers wheel listeners
+  // as passive, so attach it directly to be able to prevent page scrolling.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const point = toCanvasPoint(canvas, e.clientX, e.clientY);
+      const factor = Math.exp(e.deltaY * WHEEL_ZOOM_SPEED);
+      onCameraChange(c => zoomCamera(c, c.visibleTiles * factor, GRID_SIZE, screenToWorld(c, point.x, point.y, CANVAS_SIZE)));
+    };
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, [onCameraChange]);
+
+  // Distance and midpoint between the two active touches of a pinch
+  const getPinch = () => {
+    const [a, b] = Array.from(pointers.current.values());
+    return {
+      distance: Math.hypot(a.x - b.x, a.y - b.y),
+      center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+    };
+  };
 
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    if (DEBUG) console.log('Click position:', { x, y });
-
-    // Find clicked tile coordinates
-    let visibleTiles = 500;
-    if (zoom === 100) visibleTiles = 500;
-    else if (zoom === 50) visibleTiles = 250;
-    else if (zoom === 20) visibleTiles = 100;
-    else if (zoom === 10) visibleTiles = 50;
-    else if (zoom === 2) visibleTiles = 10;
-
-    // Calculate tile size based on zoom level
-    let tileSize = BASE_TILE_SIZE * (500 / visibleTiles);
-    if (zoom === 2) {
-      tileSize = BASE_TILE_SIZE * 5; // Bigger tiles for closest zoom
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.setPointerCapture(e.pointerId);
+
+    const point = toCanvasPoint(canvas, e.clientX, e.clientY);
+    pointers.current.set(e.pointerId, point);
+    if (pointers.current.size === 1) {
+      gesture.current = { startX: point.x, startY: point.y, dragged: false, pinchDistance: 0 };
+    } else if (pointers.current.size === 2) {
+      gesture.current.dragged = true;
+      gesture.current.pinchDistance = getPinch().distance;
     }
+  };
 
-    const clickedX = Math.floor(x / tileSize);
-    const clickedY = Math.floor(y / tileSize);
-    if (DEBUG) console.log('Clicked tile coordinates:', { clickedX, clickedY });
+  // Drag pans the camera, two pointers pinch-zoom around their midpoint
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const previous = pointers.current.get(e.pointerId);
+    if (!canvas || !previous) return;
 
-    // Calculate visible area for proper coordinates
-    const half = Math.floor(visibleTiles / 2);
-    const startX = Math.max(0, player.x - half);
-    const startY = Math.max(0, player.y - half);
-    
-    // Convert canvas coordinates to world coordinates
-    const targetX = startX + clickedX;
-    const targetY = startY + clickedY;
-    
-    // Determine direction to move (simple approach - move one step in the most needed direction)
-    const dx = Math.sign(targetX - player.x); // -1, 0, or 1
-    const dy = Math.sign(targetY - player.y); // -1, 0, or 1
-    
-    // Apply move in one axis at a time
-    if (dx !== 0) {
-      onMove(dx, 0);
-    } else if (dy !== 0) {
-      onMove(0, dy);
+    const point = toCanvasPoint(canvas, e.clientX, e.clientY);
+    pointers.current.set(e.pointerId, point);
+
+    if (pointers.current.size >= 2) {
+      const pinch = getPinch();
+      const factor = gesture.current.pinchDistance / Math.max(1, pinch.distance);
+      gesture.current.pinchDistance = pinch.distance;
+      onCameraChange(c => zoomCamera(c, c.visibleTiles * factor, GRID_SIZE, screenToWorld(c, pinch.center.x, pinch.center.y, CANVAS_SIZE)));
+      return;
     }
+
+    const { startX, startY } = gesture.current;
+    if (!gesture.current.dragged && Math.hypot(point.x - startX, point.y - startY) < DRAG_THRESHOLD) return;
+    gesture.current.dragged = true;
+
+    const dx = point.x - previous.x;
+    const dy = point.y - previous.y;
+    onCameraChange(c => {
+      const tileSize = CANVAS_SIZE / c.visibleTiles;
+      return panCamera(c, -dx / tileSize, -dy / tileSize, GRID_SIZE);
+    });
+  };
+
+  // A pointer released without dragging is a click - travel to that tile
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const point = pointers.current.get(e.pointerId);
+    pointers.current.delete(e.pointerId);
+    if (!canvas || !point || !player) return;
+    if (pointers.current.size > 0 || gesture.current.dragged) return;
+
+    const target = screenToWorld(camera, point.x, point.y, CANVAS_SIZE);
+    if (DEBUG) console.log('Clicked tile coordinates:', target);
+    onTravel(Math.floor(target.x), Math.floor(target.y));
   };
 
+  const handlePointerCancel = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointers.current.delete(e.pointerId);
+  };
+
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (!player) return;
@@ -428,8 +401,11 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         <canvas
           ref={canvasRef}
           className="bg-gray-800 cursor-pointer"
-          onClick={handleCanvasClick}
-          style={{ maxWidth: '80vw', maxHeight: '70vh', background: '#000' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
+          style={{ maxWidth: '80vw', maxHeight: '70vh', background: '#000', touchAction: 'none' }}
         />
       </div>
       {selectedTreasure && (
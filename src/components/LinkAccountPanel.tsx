@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import EmailLogin from './EmailLogin';
+import { LinkedIdentity } from '../types/game';
+import { linkingMessage } from '../services/AccountLinking';
+import { AuthSession } from '../services/GameApi';
+import { loginWalletType, useWallets, WalletAdapter } from '../services/wallets';
+import WalletIcon from './WalletIcon';
+
+interface LinkAccountPanelProps {
+  accountId: string;
+  sessionId: string;
+  identities: LinkedIdentity[];
+  onLink: (type: LinkedIdentity['type'], id: string, proof?: string) => Promise<string>;
+  onClose: () => void;
+}
+
+const TYPE_LABELS: {[type in LinkedIdentity['type']]: string} = {
+  metamask: '🦊 MetaMask',
+  phantom: '👻 Phantom',
+  email: '✉️ Email',
+  other: 'Other',
+};
+
+function formatIdentity(id: string): string {
+  return id.startsWith('email:') ? id.replace('email:', '') : `${id.slice(0, 8)}...${id.slice(-6)}`;
+}
+
+const LinkAccountPanel: React.FC<LinkAccountPanelProps> = ({ accountId, sessionId, identities, onLink, onClose }) => {
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [showEmailLogin, setShowEmailLogin] = useState(false);
+  const wallets = useWallets();
+
+  const run = async (link: () => Promise<string>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      setMessage(await link());
+    } catch (error) {
+      console.error('Error linking account:', error);
+      setMessage(`Linking failed: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // The wallet signs a message naming this account and session to prove it's
+  // the player's. To link a different account of the same wallet, the player
+  // switches to it in the wallet first.
+  const linkWallet = (wallet: WalletAdapter) => run(async () => {
+    const address = await wallet.connect();
+    const signature = await wallet.signMessage(address, linkingMessage(accountId, address, sessionId));
+    return onLink(loginWalletType(wallet.info.chain), address, signature);
+  });
+
+  // Signing in with the email proves it's the player's
+  const linkEmail = (auth: AuthSession) => {
+    setShowEmailLogin(false);
+    run(() => onLink('email', auth.address, auth.token));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 p-6 rounded-xl shadow-2xl max-w-lg w-full mx-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 text-transparent bg-clip-text">
+            Linked Logins
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+          >
+            ✕
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-4">
+          Sign in with any of these to continue this game. Linking a login that already has
+          progress merges it into this account - treasures found on both only count once.
+        </p>
+
+        <ul className="mb-4 space-y-1 text-sm">
+          <li className="flex justify-between bg-gray-700 bg-opacity-50 rounded-lg px-3 py-2">
+            <span className="font-mono text-blue-400">{formatIdentity(accountId)}</span>
+            <span className="text-gray-400">Main login</span>
+          </li>
+          {identities.map(identity => (
+            <li key={identity.id} className="flex justify-between bg-gray-700 bg-opacity-50 rounded-lg px-3 py-2">
+              <span className="font-mono text-blue-400">{formatIdentity(identity.id)}</span>
+              <span className="text-gray-400">{TYPE_LABELS[identity.type]}</span>
+            </li>
+          ))}
+        </ul>
+
+        {showEmailLogin ? (
+          <EmailLogin onLogin={linkEmail} onCancel={() => setShowEmailLogin(false)} />
+        ) : (
+          <div className="flex flex-wrap gap-3 mb-4">
+            {wallets.map(wallet => (
+              <button
+                key={wallet.info.id}
+                onClick={() => linkWallet(wallet)}
+                disabled={busy}
+                className={`${wallet.info.chain === 'solana' ? 'bg-purple-600 hover:bg-purple-700' : 'bg-orange-600 hover:bg-orange-700'} disabled:opacity-50 text-white py-2 px-4 rounded-lg transition-colors duration-200 flex items-center`}
+              >
+                <WalletIcon wallet={wallet.info} className="w-5 h-5 mr-2" />
+                Link {wallet.info.name}
+              </button>
+            ))}
+            <button
+              onClick={() => setShowEmailLogin(true)}
+              disabled={busy}
+              className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white py-2 px-4 rounded-lg transition-colors duration-200"
+            >
+              Link Email
+            </button>
+          </div>
+        )}
+
+        {message && (
+          <div className="text-sm text-gray-200 bg-gray-700 rounded-lg p-2">{message}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LinkAccountPanel;
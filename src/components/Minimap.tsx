@@ -0,0 +1,109 @@
+import React, { useRef, useEffect } from 'react';
+import { Player, Treasure } from './GameCanvas';
+import { Camera, getViewport } from '../services/Camera';
+import { ExplorationMap } from '../services/ExplorationMap';
+import { tileRenderer } from '../services/TileRenderer';
+import { world } from '../services/WorldGenerator';
+
+interface MinimapProps {
+  camera: Camera;
+  player: Player | null;
+  treasures: Treasure[];
+  openedTreasures: {[key: string]: boolean};
+  exploration?: ExplorationMap | null;
+  explorationRevision?: number;
+  onJump: (x: number, y: number) => void;
+  onTravel: (x: number, y: number) => void;
+}
+
+const MINIMAP_SIZE = 150; // Pixels
+const GRID_SIZE = world.size;
+
+const Minimap: React.FC<MinimapProps> = ({
+  camera,
+  player,
+  treasures,
+  openedTreasures,
+  exploration,
+  explorationRevision,
+  onJump,
+  onTravel
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const scale = MINIMAP_SIZE / GRID_SIZE;
+
+    // Whole-world terrain, reusing the cached chunks, dimmed by the fog of war
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    tileRenderer.drawTerrain(ctx, 0, 0, GRID_SIZE, GRID_SIZE, scale);
+    if (exploration) {
+      tileRenderer.drawFog(ctx, exploration, 0, 0, GRID_SIZE, GRID_SIZE, scale);
+    }
+
+    // Markers - green for collected, gold for discovered but not yet collected
+    treasures.forEach(treasure => {
+      const isCollected = openedTreasures[`${treasure.x}-${treasure.y}`];
+      const isDiscovered = treasure.visibility !== 'detail' &&
+        (!exploration || exploration.isExplored(treasure.x, treasure.y));
+      if (!isCollected && !isDiscovered) return;
+
+      ctx.fillStyle = isCollected ? '#22C55E' : '#FACC15';
+      ctx.fillRect(treasure.x * scale - 1.5, treasure.y * scale - 1.5, 3, 3);
+    });
+
+    // Current viewport rectangle
+    const view = getViewport(camera, MINIMAP_SIZE, GRID_SIZE);
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(
+      view.left * scale,
+      view.top * scale,
+      camera.visibleTiles * scale,
+      camera.visibleTiles * scale
+    );
+
+    // Player position
+    if (player) {
+      ctx.fillStyle = '#2563EB';
+      ctx.strokeStyle = '#FFFFFF';
+      ctx.beginPath();
+      ctx.arc((player.x + 0.5) * scale, (player.y + 0.5) * scale, 3, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    }
+  }, [camera, player, treasures, openedTreasures, exploration, explorationRevision]);
+
+  // Click moves the camera there; shift-click travels there
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor(((e.clientX - rect.left) / rect.width) * GRID_SIZE);
+    const y = Math.floor(((e.clientY - rect.top) / rect.height) * GRID_SIZE);
+    if (e.shiftKey) {
+      onTravel(x, y);
+    } else {
+      onJump(x, y);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center space-y-1">
+      <div className="text-xs font-medium text-gray-300">Map</div>
+      <canvas
+        ref={canvasRef}
+        width={MINIMAP_SIZE}
+        height={MINIMAP_SIZE}
+        className="rounded border border-gray-600 cursor-crosshair"
+        onClick={handleClick}
+        title="Click to look there, shift-click to travel there"
+      />
+    </div>
+  );
+};
+
+export default Minimap;
@@ -1,26 +1,46 @@
 import React from 'react';
+import { NetworkInfo } from '../services/WalletSessionManager';
+import { WalletInfo } from '../services/wallets';
+import WalletIcon from './WalletIcon';
 
 interface ProfileBannerProps {
   address: string;
   walletType: 'metamask' | 'phantom' | 'email' | 'other';
+  wallet?: WalletInfo;           // The wallet signed in with, when it's known
+  network?: NetworkInfo | null;  // The wallet's network; none for email logins
+  onSwitchNetwork?: () => void;
   score: number;
   onLogout: () => void;
   onShowTreasuresList: () => void;
+  onShowTimeline: () => void;
+  onShowSaveFile: () => void;
+  onShowLinks: () => void;
   collectedTreasures: any[];
 }
 
 const ProfileBanner: React.FC<ProfileBannerProps> = ({ 
   address, 
   walletType, 
+  wallet,
+  network,
+  onSwitchNetwork,
   score, 
   onLogout,
   onShowTreasuresList,
+  onShowTimeline,
+  onShowSaveFile,
+  onShowLinks,
   collectedTreasures
 }) => {
   return (
     <div className="bg-gray-800 rounded-lg p-4 flex justify-between items-center">
       <div className="text-gray-300 flex items-center">
-        {walletType === 'metamask' && (
+        {wallet && (
+          <span title={wallet.name}>
+            <WalletIcon wallet={wallet} className="w-6 h-6 mr-2" />
+          </span>
+        )}
+        {!wallet && walletType === 'metamask' && (
           <svg 
             width="24" 
             height="24" 
@@ -39,7 +59,7 @@ const ProfileBanner: React.FC<ProfileBannerProps> = ({
             <path d="M13.4619 19.0278L16.1659 20.4451L15.7975 17.0762L13.4619 19.0278Z" fill="#E27625" stroke="#E27625" strokeWidth="0.25" strokeLinecap="round" strokeLinejoin="round"/>
           </svg>
         )}
-        {walletType === 'phantom' && (
+        {!wallet && walletType === 'phantom' && (
           <svg 
             width="24" 
             height="24" 
@@ -57,11 +77,24 @@ const ProfileBanner: React.FC<ProfileBannerProps> = ({
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
           </svg>
         )}
-        {walletType === 'email' ? (
+        {address.startsWith('email:') ? (
           <span className="font-mono text-blue-400">{address.replace('email:', '')}</span>
         ) : (
           <span className="font-mono text-blue-400">{address.slice(0, 8)}...{address.slice(-6)}</span>
         )}
+        {network && (network.supported ? (
+          <span className="ml-3 text-xs bg-gray-700 text-green-400 px-2 py-1 rounded-full">
+            🌐 {network.name}
+          </span>
+        ) : (
+          <button
+            onClick={onSwitchNetwork}
+            title="This game runs on another network"
+            className="ml-3 text-xs bg-amber-700 hover:bg-amber-600 text-white px-2 py-1 rounded-full transition-colors"
+          >
+            ⚠️ {network.name} - Switch network
+          </button>
+        ))}
       </div>
       <div className="flex items-center space-x-4">
         <div className="text-yellow-500 font-bold">
@@ -74,6 +107,27 @@ const ProfileBanner: React.FC<ProfileBannerProps> = ({
           <span className="mr-1">🎒</span>
           Treasures: {collectedTreasures.length}
         </button>
+        <button 
+          className="text-sm text-gray-200 bg-gray-600 px-4 py-2 rounded-full cursor-pointer hover:bg-gray-700 flex items-center transition-colors"
+          onClick={onShowTimeline}
+        >
+          <span className="mr-1">📅</span>
+          Activity
+        </button>
+        <button 
+          className="text-sm text-gray-200 bg-gray-600 px-4 py-2 rounded-full cursor-pointer hover:bg-gray-700 flex items-center transition-colors"
+          onClick={onShowSaveFile}
+        >
+          <span className="mr-1">💾</span>
+          Save
+        </button>
+        <button 
+          className="text-sm text-gray-200 bg-gray-600 px-4 py-2 rounded-full cursor-pointer hover:bg-gray-700 flex items-center transition-colors"
+          onClick={onShowLinks}
+        >
+          <span className="mr-1">🔗</span>
+          Logins
+        </button>
         <button 
           onClick={onLogout}
           className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-full transition-colors"
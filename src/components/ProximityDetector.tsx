@@ -0,0 +1,38 @@
+import React from 'react';
+import { ProximityReading } from '../services/TreasureVisibility';
+
+interface ProximityDetectorProps {
+  reading: ProximityReading;
+}
+
+// Hot/cold labels from weakest to strongest signal
+const LEVELS = [
+  { min: 0, label: 'Cold', color: 'bg-blue-500', text: 'text-blue-300' },
+  { min: 0.25, label: 'Cool', color: 'bg-cyan-500', text: 'text-cyan-300' },
+  { min: 0.5, label: 'Warm', color: 'bg-yellow-500', text: 'text-yellow-300' },
+  { min: 0.75, label: 'Hot', color: 'bg-orange-500', text: 'text-orange-300' },
+  { min: 0.9, label: 'Burning!', color: 'bg-red-500', text: 'text-red-300' },
+];
+
+const ProximityDetector: React.FC<ProximityDetectorProps> = ({ reading }) => {
+  const { strength } = reading;
+  const level = [...LEVELS].reverse().find(l => strength >= l.min) || LEVELS[0];
+  const isSilent = strength === 0;
+
+  return (
+    <div className="flex flex-col items-center space-y-1 w-32">
+      <div className="text-xs font-medium text-gray-300">Treasure Sense</div>
+      <div className="w-full h-2 rounded bg-gray-600 overflow-hidden">
+        <div
+          className={`h-full transition-all duration-300 ${level.color} ${strength >= 0.9 ? 'animate-pulse' : ''}`}
+          style={{ width: `${Math.round(strength * 100)}%` }}
+        />
+      </div>
+      <div className={`text-xs font-bold ${isSilent ? 'text-gray-500' : level.text}`}>
+        {isSilent ? 'Nothing nearby' : level.label}
+      </div>
+    </div>
+  );
+};
+
+export default ProximityDetector;
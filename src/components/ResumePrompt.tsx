@@ -0,0 +1,47 @@
+import React from 'react';
+import { SessionSnapshot } from '../services/SessionState';
+
+interface ResumePromptProps {
+  snapshot: SessionSnapshot;
+  onResume: () => void;
+  onStartFresh: () => void;
+}
+
+// "3 hours ago", "2 days ago"...
+function timeAgo(iso: string): string {
+  const minutes = Math.max(0, Math.round((Date.now() - Date.parse(iso)) / 60000));
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  return `${Math.round(hours / 24)} days ago`;
+}
+
+const ResumePrompt: React.FC<ResumePromptProps> = ({ snapshot, onResume, onStartFresh }) => {
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 max-w-sm w-full text-center shadow-xl">
+      <h2 className="text-xl font-bold text-white mb-2">Welcome back!</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        Your last expedition was {timeAgo(snapshot.savedAt)}
+        {snapshot.travelTarget && (
+          <> - you were on your way to {snapshot.travelTarget.x}, {snapshot.travelTarget.y}</>
+        )}.
+      </p>
+      <div className="flex justify-center space-x-3">
+        <button
+          onClick={onResume}
+          className="bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+          Resume where you left off
+        </button>
+        <button
+          onClick={onStartFresh}
+          className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+          Start fresh
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResumePrompt;
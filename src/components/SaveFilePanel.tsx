@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { User } from '../types/game';
+import { SessionSnapshot } from '../services/SessionState';
+import { ExplorationMap } from '../services/ExplorationMap';
+import {
+  createSaveFile, diffSave, readSaveFile, signingMessage,
+  ImportMode, SaveCheck, SaveDiff, SaveFile, SaveFileError, SignatureStatus,
+} from '../services/SaveFile';
+import { signWithWallet } from '../services/WalletSigning';
+
+interface SaveFilePanelProps {
+  user: User;
+  exploration: ExplorationMap | null;  // Live map, read when exporting or comparing
+  session: SessionSnapshot;
+  onImport: (save: string, mode: ImportMode, incoming: User) => Promise<string>;
+  onClose: () => void;
+}
+
+interface PendingImport {
+  text: string;
+  file: SaveFile;
+  check: SaveCheck;
+  diff: SaveDiff;
+  problems: string[];
+}
+
+const SIGNATURE_LABELS: {[status in SignatureStatus]: string} = {
+  valid: 'Signed by your wallet',
+  invalid: 'Invalid signature',
+  missing: 'Not signed',
+  unverified: 'Signed - checked by the server on import',
+};
+
+function download(file: SaveFile, user: User) {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  const name = (user.email || user.walletAddress || user.id).replace(/[^a-zA-Z0-9]/g, '').slice(0, 12);
+  link.href = url;
+  link.download = `treasure-hunt-${name}-${file.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const SaveFilePanel: React.FC<SaveFilePanelProps> = ({ user, session, exploration, onImport, onClose }) => {
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+
+  // The record a save file is made from. The map changes in place as the
+  // player walks, so it's encoded when it's needed rather than on render.
+  const currentRecord = (): User => ({ ...user, exploration: exploration?.encode() });
+
+  const handleExport = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const file = createSaveFile(currentRecord(), session);
+      const signature = await signWithWallet(
+        user.walletType || 'other',
+        user.walletAddress || user.id,
+        signingMessage(user.walletAddress || user.id, file.checksum)
+      );
+      download(signature ? { ...file, signature } : file, user);
+      setMessage('Save file downloaded');
+    } catch (error) {
+      console.error('Error exporting save:', error);
+      setMessage(`Export failed: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    e.target.value = '';
+    if (!chosen) return;
+    setMessage(null);
+    setPending(null);
+    try {
+      const text = await chosen.text();
+      const { file, check } = readSaveFile(text, user);
+      const problems = [...check.problems];
+      if (file.user.id !== user.id) problems.push('This save belongs to another account');
+      setPending({ text, file, check, diff: diffSave(currentRecord(), file.user), problems });
+    } catch (error) {
+      setMessage(error instanceof SaveFileError ? error.message : `Could not read the file: ${(error as Error).message}`);
+    }
+  };
+
+  const handleImport = async (mode: ImportMode) => {
+    if (!pending) return;
+    setBusy(true);
+    try {
+      setMessage(await onImport(pending.text, mode, pending.file.user));
+      setPending(null);
+    } catch (error) {
+      console.error('Error importing save:', error);
+      setMessage(`Import failed: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 p-6 rounded-xl shadow-2xl max-w-lg w-full mx-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 text-transparent bg-clip-text">
+            Save File
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+          >
+            ✕
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-4">
+          Download your progress to keep it safe or move it to another browser.
+          {user.walletType === 'metamask' || user.walletType === 'phantom' ? ' Your wallet will be asked to sign it.' : ''}
+        </p>
+
+        <div className="flex space-x-3 mb-4">
+          <button
+            onClick={handleExport}
+            disabled={busy}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            Export
+          </button>
+          <label className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded-lg transition-colors duration-200 cursor-pointer">
+            Import…
+            <input type="file" accept="application/json,.json" className="hidden" onChange={handleFileChosen} disabled={busy} />
+          </label>
+        </div>
+
+        {message && (
+          <div className="text-sm text-gray-200 bg-gray-700 rounded-lg p-2 mb-4">{message}</div>
+        )}
+
+        {pending && (
+          <div className="bg-gray-700 bg-opacity-50 rounded-lg p-3 text-sm">
+            <div className="text-gray-400 mb-2">
+              Exported {new Date(pending.file.exportedAt).toLocaleString()}
+            </div>
+            <ul className="mb-2 space-y-1">
+              <li className={pending.check.checksumValid ? 'text-green-400' : 'text-red-400'}>
+                {pending.check.checksumValid ? '✓ Checksum matches' : '✕ Checksum does not match'}
+              </li>
+              <li className={pending.check.signature === 'invalid' ? 'text-red-400' : 'text-gray-300'}>
+                {SIGNATURE_LABELS[pending.check.signature]}
+              </li>
+            </ul>
+
+            <table className="w-full text-left mb-2">
+              <thead>
+                <tr className="text-gray-400">
+                  <th></th><th>Now</th><th>Merge</th><th>Replace</th>
+                </tr>
+              </thead>
+              <tbody className="text-white">
+                <tr>
+                  <td className="text-gray-400">Score</td>
+                  <td>{pending.diff.score.current}</td>
+                  <td>{pending.diff.score.merged}</td>
+                  <td>{pending.diff.score.replaced}</td>
+                </tr>
+                <tr>
+                  <td className="text-gray-400">Explored tiles</td>
+                  <td>{pending.diff.exploredTiles.current}</td>
+                  <td>{pending.diff.exploredTiles.merged}</td>
+                  <td>{pending.diff.exploredTiles.replaced}</td>
+                </tr>
+              </tbody>
+            </table>
+            <div className="text-gray-300 mb-3">
+              {pending.diff.newEvents.length} find(s) only in the file, {pending.diff.missingEvents.length} find(s) only here
+              {pending.diff.missingEvents.length > 0 && ' (lost if you replace)'}
+            </div>
+
+            {pending.problems.length > 0 ? (
+              <ul className="text-red-400 list-disc list-inside">
+                {pending.problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            ) : (
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => handleImport('merge')}
+                  disabled={busy}
+                  className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white py-1 px-3 rounded-lg"
+                >
+                  Merge
+                </button>
+                <button
+                  onClick={() => handleImport('replace')}
+                  disabled={busy}
+                  className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white py-1 px-3 rounded-lg"
+                >
+                  Replace
+                </button>
+                <button
+                  onClick={() => setPending(null)}
+                  className="text-gray-400 hover:text-white py-1 px-3"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SaveFilePanel;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { ScoreLine } from '../types/game';
+
+interface ScoreBreakdownProps {
+  lines: ScoreLine[];
+  total: number;
+}
+
+// How a score award adds up, one line per rule from the economy
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ lines, total }) => (
+  <div className="text-xs font-mono">
+    {lines.map((line, i) => (
+      <div key={i} className="flex justify-between text-gray-300">
+        <span>{line.label}</span>
+        <span>{line.points >= 0 ? '+' : ''}{line.points}</span>
+      </div>
+    ))}
+    <div className="flex justify-between border-t border-gray-600 mt-1 pt-1 text-yellow-300 font-bold">
+      <span>Total</span>
+      <span>{total}</span>
+    </div>
+  </div>
+);
+
+export default ScoreBreakdown;
@@ -0,0 +1,35 @@
+import React from 'react';
+
+interface SpectatePromptProps {
+  onSpectate: () => void;
+  onPlayHere: () => void;
+}
+
+// Shown when the account is already being played in another tab
+const SpectatePrompt: React.FC<SpectatePromptProps> = ({ onSpectate, onPlayHere }) => {
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 max-w-sm w-full text-center shadow-xl">
+      <h2 className="text-xl font-bold text-white mb-2">Already playing</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        This account is open in another tab. You can watch it here without
+        changing anything, or play in both tabs - finds from either one are kept.
+      </p>
+      <div className="flex justify-center space-x-3">
+        <button
+          onClick={onSpectate}
+          className="bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+          Watch (read-only)
+        </button>
+        <button
+          onClick={onPlayHere}
+          className="bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+          Play here too
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpectatePrompt;
@@ -1,13 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { Treasure } from './GameCanvas';
-import treasureData from '../data/treasureData.json';
+import ScoreBreakdown from './ScoreBreakdown';
+import { getTreasureDatabase } from '../services/TreasureDataLoader';
+import { economy, getAwardLines } from '../services/Economy';
+import { CollectionEvent } from '../types/game';
 
 interface TreasureModalProps {
   treasure: Treasure | null;
+  award?: CollectionEvent;  // Set for collected treasures, to show what the find earned
   onClose: () => void;
 }
 
-const TreasureModal: React.FC<TreasureModalProps> = ({ treasure, onClose }) => {
+const TreasureModal: React.FC<TreasureModalProps> = ({ treasure, award, onClose }) => {
   // Animation for the modal - MUST be before any conditional returns
   const [isVisible, setIsVisible] = useState(false);
   
@@ -23,22 +27,11 @@ const TreasureModal: React.FC<TreasureModalProps> = ({ treasure, onClose }) => {
 
   // Get biome description for the treasure's biome
   const getBiomeDescription = (biome?: string) => {
-    if (!biome || !treasureData.biomes[biome as keyof typeof treasureData.biomes]) {
+    const biomes = getTreasureDatabase().biomes;
+    if (!biome || !biomes[biome as keyof typeof biomes]) {
       return "Unknown lands";
     }
-    return treasureData.biomes[biome as keyof typeof treasureData.biomes].description;
-  };
-  
-  // Calculate treasure value based on rarity
-  const calculateTreasureValue = (rarity?: string) => {
-    const valueMap: {[key: string]: number} = {
-      'Common': 10,
-      'Uncommon': 50,
-      'Rare': 200,
-      'Epic': 500,
-      'Legendary': 1000
-    };
-    return valueMap[rarity || 'Common'] || 10;
+    return biomes[biome as keyof typeof biomes].description;
   };
   
   // Determine the age of the treasure (more deterministic now)
@@ -66,7 +59,10 @@ const TreasureModal: React.FC<TreasureModalProps> = ({ treasure, onClose }) => {
   
   const rarity = treasure.rarity || 'Common';
   const biomeDesc = getBiomeDescription(treasure.biome);
-  const value = calculateTreasureValue(rarity);
+  // Before it's found, the value without the finder's bonuses
+  const value = award
+    ? { total: award.points, lines: getAwardLines(award) }
+    : economy.estimateValue(treasure);
   const age = getTreasureAge(treasure.id);
   const powerLevel = getPowerLevel(rarity, treasure.id);
   
@@ -139,8 +135,9 @@ const TreasureModal: React.FC<TreasureModalProps> = ({ treasure, onClose }) => {
           </div>
 
           <div className="bg-gray-700 bg-opacity-50 p-3 rounded-lg">
-            <div className="text-gray-400 text-sm">Value</div>
-            <div className="text-yellow-300 font-bold">{value} gold coins</div>
+            <div className="text-gray-400 text-sm">{award ? 'Awarded' : 'Value'}</div>
+            <div className="text-yellow-300 font-bold mb-1">{value.total} gold coins</div>
+            <ScoreBreakdown lines={value.lines} total={value.total} />
           </div>
         </div>
 
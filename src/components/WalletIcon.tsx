@@ -0,0 +1,16 @@
+import React from 'react';
+import { WalletInfo } from '../services/wallets';
+
+interface WalletIconProps {
+  wallet: WalletInfo;
+  className?: string;
+}
+
+// The icon a wallet announced, or a stand-in for wallets without one
+const WalletIcon: React.FC<WalletIconProps> = ({ wallet, className = 'w-6 h-6' }) => (
+  wallet.icon
+    ? <img src={wallet.icon} alt="" className={className} />
+    : <span className={`${className} flex items-center justify-center`}>{wallet.chain === 'solana' ? '👻' : '👛'}</span>
+);
+
+export default WalletIcon;
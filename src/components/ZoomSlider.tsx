@@ -1,38 +1,52 @@
 import React from "react";
+import {
+  Camera,
+  getZoomFraction,
+  visibleTilesFromFraction,
+} from "../services/Camera";
 
 interface ZoomSliderProps {
-  zoom: number;
-  setZoom: (zoom: number) => void;
+  camera: Camera;
+  onZoom: (visibleTiles: number) => void;
+  onRecenter: () => void;
 } 
 
-const ZoomSlider: React.FC<ZoomSliderProps> = ({ zoom, setZoom }) => {
-  const zoomLevels = [
-    { value: 100, label: 'Full Map', size: '500×500' },
-    { value: 50, label: 'Large', size: '250×250' },
-    { value: 20, label: 'Medium', size: '100×100' },
-    { value: 10, label: 'Close', size: '50×50' },
-    { value: 2, label: 'Detail', size: '10×10' },
-  ];
+const SLIDER_STEPS = 200;
+
+const ZoomSlider: React.FC<ZoomSliderProps> = ({ camera, onZoom, onRecenter }) => {
+  // The slider runs on a log scale so each notch feels like the same zoom step
+  const value = Math.round(getZoomFraction(camera) * SLIDER_STEPS);
+  const tiles = Math.round(camera.visibleTiles);
 
   return (
     <div className="flex flex-col items-center space-y-2">
-      <div className="text-xs font-medium text-gray-300 mb-1">Zoom Level</div>
+      <div className="text-xs font-medium text-gray-300 mb-1">
+        Zoom Level <span className="text-gray-400">({tiles}×{tiles})</span>
+      </div>
       <div className="flex items-center space-x-2">
-        {zoomLevels.map(level => (
-          <button
-            key={level.value}
-            onClick={() => setZoom(level.value)}
-            className={`px-3 py-1 rounded-md text-xs font-medium transition-all duration-200 ${
-              zoom === level.value
-                ? 'bg-blue-500 text-white shadow-lg shadow-blue-500/50'
-                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-            }`}
-            title={level.size}
-          >
-            {level.label}
-          </button>
-        ))}
+        <span className="text-xs text-gray-400">Map</span>
+        <input
+          type="range"
+          min={0}
+          max={SLIDER_STEPS}
+          value={value}
+          onChange={(e) => onZoom(visibleTilesFromFraction(Number(e.target.value) / SLIDER_STEPS))}
+          className="w-40 accent-blue-500"
+          aria-label="Zoom level"
+        />
+        <span className="text-xs text-gray-400">Detail</span>
       </div>
+      <button
+        onClick={onRecenter}
+        disabled={camera.following}
+        className={`px-3 py-1 rounded-md text-xs font-medium transition-all duration-200 ${
+          camera.following
+            ? 'bg-gray-700 text-gray-500'
+            : 'bg-blue-500 text-white shadow-lg shadow-blue-500/50 hover:bg-blue-600'
+        }`}
+      >
+        Recenter on player
+      </button>
     </div>
   );
 };
@@ -0,0 +1,50 @@
+import { getIdentityIds, linkingMessage, mergeAccounts } from './AccountLinking';
+import { CollectionEvent, User } from '../types/game';
+
+function find(id: string, treasureId: string, collectedAt: string): CollectionEvent {
+  return {
+    id,
+    treasureId,
+    treasure: { id: treasureId, x: 1, y: 1, emoji: '💎', rarity: 'Rare' },
+    x: 1,
+    y: 1,
+    points: 200,
+    sessionId: 's',
+    collectedAt,
+  };
+}
+
+function user(id: string, events: CollectionEvent[], fields: Partial<User> = {}): User {
+  return { version: 3, id, events, lastLogin: '2024-01-01T00:00:00.000Z', ...fields };
+}
+
+const linkedAt = '2024-02-01T00:00:00.000Z';
+
+test('the linking message names the account, the login and the session', () => {
+  expect(linkingMessage('0xabc', 'email:a@b.c', 's1')).toBe(
+    'Treasure Hunt account link\nAccount: 0xabc\nIdentity: email:a@b.c\nSession: s1'
+  );
+});
+
+test('linking a new login only adds the identity', () => {
+  const account = user('0xabc', [find('e1', 'T1', '2024-01-01T00:00:00Z')]);
+  const merged = mergeAccounts(account, null, { type: 'email', id: 'email:a@b.c', linkedAt });
+  expect(getIdentityIds(merged)).toEqual(['0xabc', 'email:a@b.c']);
+  expect(merged.events).toEqual(account.events);
+});
+
+test('merging accounts counts each treasure once and keeps their logins', () => {
+  const account = user('0xabc', [find('e1', 'T1', '2024-01-02T00:00:00Z')]);
+  const other = user('email:a@b.c', [
+    find('e2', 'T1', '2024-01-01T00:00:00Z'),
+    find('e3', 'T2', '2024-01-03T00:00:00Z'),
+  ], {
+    walletType: 'email',
+    identities: [{ type: 'phantom', id: 'Phan7om', linkedAt }],
+  });
+
+  const merged = mergeAccounts(account, other, { type: 'email', id: 'email:a@b.c', linkedAt });
+  expect(merged.events.map(event => event.id)).toEqual(['e1', 'e3']);
+  expect(getIdentityIds(merged)).toEqual(['0xabc', 'email:a@b.c', 'Phan7om']);
+  expect(merged.identities?.[0].type).toBe('email');
+});
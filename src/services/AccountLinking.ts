@@ -0,0 +1,38 @@
+import { LinkedIdentity, User } from '../types/game';
+import { mergeEvents, mergeExploration } from './SaveFile';
+
+// Linking a second login (wallet or email) to an account. Shared by the
+// client, which asks the wallet to sign, and the server, which checks the
+// signature and merges the accounts.
+
+// What a wallet signs to prove it belongs to the player linking it. The
+// session id ties the signature to one login, so it can't be replayed later.
+export function linkingMessage(accountId: string, identityId: string, sessionId: string): string {
+  return `Treasure Hunt account link\nAccount: ${accountId}\nIdentity: ${identityId}\nSession: ${sessionId}`;
+}
+
+// Every login that opens the account, its own id first
+export function getIdentityIds(user: User): string[] {
+  return [user.id, ...(user.identities || []).map(identity => identity.id)];
+}
+
+// Fold `other` (the account the new identity belonged to, if any) into
+// `account`. A treasure found on both accounts only counts once.
+export function mergeAccounts(account: User, other: User | null, identity: LinkedIdentity): User {
+  const identities = [...(account.identities || [])];
+  const add = (linked: LinkedIdentity) => {
+    if (linked.id !== account.id && !identities.some(i => i.id === linked.id)) identities.push(linked);
+  };
+  add(identity);
+
+  if (!other) return { ...account, identities };
+
+  add({ type: other.walletType || 'other', id: other.id, linkedAt: identity.linkedAt });
+  (other.identities || []).forEach(add);
+  return {
+    ...account,
+    identities,
+    events: mergeEvents(account.events, other.events),
+    exploration: mergeExploration(account.exploration, other.exploration),
+  };
+}
@@ -0,0 +1,102 @@
+import { TilePosition } from './Pathfinder';
+
+// Camera model - where the view is centered and how much of the world it shows.
+// All functions are pure and return a new camera, so it fits in React state.
+
+export interface Camera {
+  x: number;             // World tile at the center of the view (fractional)
+  y: number;
+  visibleTiles: number;  // Tiles across the view - the zoom scale
+  following: boolean;    // Track the player until the user pans away
+}
+
+export interface Viewport {
+  left: number;      // Fractional world coordinate of the view's left edge
+  top: number;
+  startX: number;    // First (partially) visible tile
+  startY: number;
+  endX: number;      // One past the last visible tile
+  endY: number;
+  tileSize: number;  // Pixels per tile
+}
+
+export const MIN_VISIBLE_TILES = 10;
+export const MAX_VISIBLE_TILES = 500;
+
+export function createCamera(center: TilePosition, visibleTiles: number, worldSize: number): Camera {
+  return clampCamera({ x: center.x + 0.5, y: center.y + 0.5, visibleTiles, following: true }, worldSize);
+}
+
+// Keep the zoom in range and the view inside the world
+export function clampCamera(camera: Camera, worldSize: number): Camera {
+  const visibleTiles = Math.max(
+    MIN_VISIBLE_TILES,
+    Math.min(Math.min(MAX_VISIBLE_TILES, worldSize), camera.visibleTiles)
+  );
+  const half = visibleTiles / 2;
+  const clampAxis = (value: number) => Math.max(half, Math.min(worldSize - half, value));
+  return { ...camera, visibleTiles, x: clampAxis(camera.x), y: clampAxis(camera.y) };
+}
+
+// Center on a tile, e.g. to follow the player
+export function centerOn(camera: Camera, position: TilePosition, worldSize: number): Camera {
+  return clampCamera({ ...camera, x: position.x + 0.5, y: position.y + 0.5 }, worldSize);
+}
+
+// Move the view by a number of tiles; panning stops following the player
+export function panCamera(camera: Camera, dx: number, dy: number, worldSize: number): Camera {
+  return clampCamera({ ...camera, x: camera.x + dx, y: camera.y + dy, following: false }, worldSize);
+}
+
+// Change the zoom. With an anchor (a world position under the cursor) the
+// anchor stays at the same spot on screen; without one the center is kept.
+export function zoomCamera(
+  camera: Camera,
+  visibleTiles: number,
+  worldSize: number,
+  anchor?: { x: number; y: number }
+): Camera {
+  const zoomed = clampCamera({ ...camera, visibleTiles }, worldSize);
+  if (!anchor) return zoomed;
+
+  const ratio = zoomed.visibleTiles / camera.visibleTiles;
+  return clampCamera({
+    ...zoomed,
+    x: anchor.x + (camera.x - anchor.x) * ratio,
+    y: anchor.y + (camera.y - anchor.y) * ratio,
+    following: false,
+  }, worldSize);
+}
+
+export function getViewport(camera: Camera, canvasSize: number, worldSize: number): Viewport {
+  const tileSize = canvasSize / camera.visibleTiles;
+  const left = camera.x - camera.visibleTiles / 2;
+  const top = camera.y - camera.visibleTiles / 2;
+  return {
+    left,
+    top,
+    startX: Math.max(0, Math.floor(left)),
+    startY: Math.max(0, Math.floor(top)),
+    endX: Math.min(worldSize, Math.ceil(left + camera.visibleTiles)),
+    endY: Math.min(worldSize, Math.ceil(top + camera.visibleTiles)),
+    tileSize,
+  };
+}
+
+// Convert a canvas pixel position to a fractional world position
+export function screenToWorld(camera: Camera, px: number, py: number, canvasSize: number): { x: number; y: number } {
+  const tileSize = canvasSize / camera.visibleTiles;
+  return {
+    x: camera.x - camera.visibleTiles / 2 + px / tileSize,
+    y: camera.y - camera.visibleTiles / 2 + py / tileSize,
+  };
+}
+
+// Log-scale position of the zoom in [0, 1] (0 = whole map, 1 = closest)
+export function getZoomFraction(camera: Camera): number {
+  return Math.log(MAX_VISIBLE_TILES / camera.visibleTiles) / Math.log(MAX_VISIBLE_TILES / MIN_VISIBLE_TILES);
+}
+
+export function visibleTilesFromFraction(fraction: number): number {
+  return MAX_VISIBLE_TILES * Math.pow(MIN_VISIBLE_TILES / MAX_VISIBLE_TILES, fraction);
+}
@@ -0,0 +1,44 @@
+import { getScore, groupByDay, groupBySession } from './CollectionHistory';
+import { CollectionEvent } from '../types/game';
+
+function event(id: string, sessionId: string, collectedAt: string, points: number): CollectionEvent {
+  return {
+    id,
+    treasureId: id,
+    treasure: { id, x: 0, y: 0, emoji: '🪙' },
+    x: 0,
+    y: 0,
+    points,
+    sessionId,
+    collectedAt,
+  };
+}
+
+// Noon local time, so the day never shifts with the test machine's timezone
+const at = (day: number, hour: number = 12) => new Date(2024, 0, day, hour).toISOString();
+
+const events = [
+  event('c', 's2', at(2), 200),
+  event('a', 's1', at(1, 10), 10),
+  event('b', 's1', at(1, 11), 50),
+];
+
+test('score is the sum of event points', () => {
+  expect(getScore(events)).toBe(260);
+  expect(getScore([])).toBe(0);
+});
+
+test('groups events by day with a running total', () => {
+  const days = groupByDay(events);
+  expect(days.map(d => d.day)).toEqual(['2024-01-01', '2024-01-02']);
+  expect(days[0].events.map(e => e.id)).toEqual(['a', 'b']);
+  expect(days.map(d => d.points)).toEqual([60, 200]);
+  expect(days.map(d => d.totalPoints)).toEqual([60, 260]);
+});
+
+test('summarizes finds per session', () => {
+  expect(groupBySession(events)).toEqual([
+    { sessionId: 's1', startedAt: at(1, 10), finds: 2, points: 60 },
+    { sessionId: 's2', startedAt: at(2), finds: 1, points: 200 },
+  ]);
+});
@@ -0,0 +1,71 @@
+import { CollectionEvent, Treasure } from '../types/game';
+
+// Everything about a player's progress is derived from their collection events
+
+export interface DayActivity {
+  day: string;              // Local date, YYYY-MM-DD
+  events: CollectionEvent[];
+  points: number;
+  totalPoints: number;      // Running score at the end of the day
+}
+
+export interface SessionActivity {
+  sessionId: string;
+  startedAt: string;        // First find in the session
+  finds: number;
+  points: number;
+}
+
+export function getScore(events: CollectionEvent[]): number {
+  return events.reduce((sum, event) => sum + event.points, 0);
+}
+
+export function getCollectedTreasures(events: CollectionEvent[]): Treasure[] {
+  return events.map(event => event.treasure);
+}
+
+function byTime(a: CollectionEvent, b: CollectionEvent): number {
+  return a.collectedAt.localeCompare(b.collectedAt);
+}
+
+function localDay(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Events grouped by day, oldest first, with the running score
+export function groupByDay(events: CollectionEvent[]): DayActivity[] {
+  const days: DayActivity[] = [];
+  let totalPoints = 0;
+  [...events].sort(byTime).forEach(event => {
+    const day = localDay(event.collectedAt);
+    let current = days[days.length - 1];
+    if (!current || current.day !== day) {
+      current = { day, events: [], points: 0, totalPoints };
+      days.push(current);
+    }
+    current.events.push(event);
+    current.points += event.points;
+    totalPoints += event.points;
+    current.totalPoints = totalPoints;
+  });
+  return days;
+}
+
+// Finds and points per game session, oldest first
+export function groupBySession(events: CollectionEvent[]): SessionActivity[] {
+  const sessions: SessionActivity[] = [];
+  const bySession: {[sessionId: string]: SessionActivity} = {};
+  [...events].sort(byTime).forEach(event => {
+    let session = bySession[event.sessionId];
+    if (!session) {
+      session = { sessionId: event.sessionId, startedAt: event.collectedAt, finds: 0, points: 0 };
+      bySession[event.sessionId] = session;
+      sessions.push(session);
+    }
+    session.finds++;
+    session.points += event.points;
+  });
+  return sessions;
+}
@@ -0,0 +1,71 @@
+import { Economy, EconomyRules, EconomyRulesError, economy, getAwardLines } from './Economy';
+import { CollectionEvent, Treasure } from '../types/game';
+
+const rules: EconomyRules = {
+  version: 'test',
+  rarityValues: { Common: 10, Rare: 200 },
+  defaultValue: 10,
+  biomeMultipliers: { water: 1.5 },
+  firstFinderBonus: 0.5,
+  streak: { bonusPerDay: 0.1, maxBonus: 0.2 },
+  combo: { windowMinutes: 3, bonusPerFind: 0.1, maxBonus: 0.5 },
+  events: [{ id: 'rush', name: 'Rush', start: '2024-06-01T00:00:00Z', end: '2024-06-02T00:00:00Z', multiplier: 2, biomes: ['water'] }],
+};
+
+const rare: Treasure = { id: 'T1', x: 1, y: 1, emoji: '💎', rarity: 'Rare', biome: 'water' };
+
+function findAt(collectedAt: string): CollectionEvent {
+  return { id: collectedAt, treasureId: collectedAt, treasure: rare, x: 1, y: 1, points: 10, sessionId: 's', collectedAt };
+}
+
+test('base values come from the data file', () => {
+  expect(economy.getBaseValue('Legendary')).toBe(1000);
+  expect(economy.getBaseValue('Unknown')).toBe(10);
+  expect(economy.getBaseValue()).toBe(10);
+});
+
+test('awards add up their breakdown lines', () => {
+  const engine = new Economy(rules);
+  const award = engine.scoreClaim(rare, { time: Date.parse('2024-05-01T12:00:00Z'), history: [], firstFinder: true });
+  expect(award.lines.map(line => [line.kind, line.points])).toEqual([
+    ['base', 200],
+    ['biome', 100],
+    ['firstFinder', 150],
+  ]);
+  expect(award.total).toBe(450);
+});
+
+test('streaks, combos and events raise the award', () => {
+  const engine = new Economy(rules);
+  const time = Date.parse('2024-06-01T12:00:00Z');
+  const history = [
+    findAt('2024-05-30T12:00:00Z'),
+    findAt('2024-05-31T12:00:00Z'),
+    findAt('2024-06-01T11:56:00Z'),
+    findAt('2024-06-01T11:58:00Z'),
+  ];
+  expect(engine.getStreakDays(history, time)).toBe(3);
+  expect(engine.getComboCount(history, time)).toBe(2);
+
+  const award = engine.scoreClaim(rare, { time, history, firstFinder: false });
+  // 300 value, +20% capped streak, +20% combo, then doubled by the event
+  expect(award.lines.map(line => line.kind)).toEqual(['base', 'biome', 'streak', 'combo', 'event']);
+  expect(award.total).toBe((300 + 60 + 60) * 2);
+  // The event only covers water and beach treasures
+  expect(engine.estimateValue({ ...rare, biome: 'forest' }, time).total).toBe(200);
+});
+
+test('bad rules are rejected with every problem listed', () => {
+  let error: unknown;
+  try {
+    new Economy({ ...rules, defaultValue: -1, events: [{ ...rules.events[0], end: rules.events[0].start }] });
+  } catch (e) {
+    error = e;
+  }
+  expect(error).toBeInstanceOf(EconomyRulesError);
+  expect((error as EconomyRulesError).issues).toHaveLength(2);
+});
+
+test('older events without a breakdown show their total', () => {
+  expect(getAwardLines(findAt('2024-01-01T00:00:00Z'))).toEqual([{ kind: 'base', label: 'Rare treasure', points: 10 }]);
+});
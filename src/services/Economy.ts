@@ -0,0 +1,209 @@
+import economyData from '../data/economy.json';
+import { CollectionEvent, ScoreLine, Treasure } from '../types/game';
+
+// All scoring lives here, driven by economy.json. A claim is worth:
+//   value    = base (by rarity) x biome multiplier
+//   subtotal = value + value x (first finder + streak + combo bonuses)
+//   total    = subtotal x every running event multiplier
+// Every award comes with the lines that add up to it, for display.
+
+export interface EconomyEvent {
+  id: string;
+  name: string;
+  start: string;          // ISO timestamps; the event runs from start up to end
+  end: string;
+  multiplier: number;
+  rarities?: string[];    // Limit the event to these rarities / biomes
+  biomes?: string[];
+}
+
+export interface EconomyRules {
+  version: string;
+  rarityValues: {[rarity: string]: number};
+  defaultValue: number;
+  biomeMultipliers: {[biome: string]: number};
+  firstFinderBonus: number;                                 // Share of the value
+  streak: { bonusPerDay: number; maxBonus: number };        // Days in a row with a find
+  combo: { windowMinutes: number; bonusPerFind: number; maxBonus: number };  // Finds in quick succession
+  events: EconomyEvent[];
+}
+
+export interface ScoreBreakdown {
+  total: number;
+  lines: ScoreLine[];
+}
+
+export interface ClaimContext {
+  time: number;
+  history: CollectionEvent[];  // The player's earlier finds
+  firstFinder: boolean;        // Nobody has claimed this treasure before
+}
+
+// Problems in economy.json
+export class EconomyRulesError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid economy rules:\n- ${issues.join('\n- ')}`);
+    this.name = 'EconomyRulesError';
+    this.issues = issues;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function validateRules(rules: EconomyRules): void {
+  const issues: string[] = [];
+  const isNumber = (value: unknown, min: number = 0) => typeof value === 'number' && isFinite(value) && value >= min;
+
+  Object.keys(rules.rarityValues || {}).forEach(rarity => {
+    if (!isNumber(rules.rarityValues[rarity])) issues.push(`rarityValues.${rarity} must be a number >= 0`);
+  });
+  if (!isNumber(rules.defaultValue)) issues.push('defaultValue must be a number >= 0');
+  Object.keys(rules.biomeMultipliers || {}).forEach(biome => {
+    if (!isNumber(rules.biomeMultipliers[biome])) issues.push(`biomeMultipliers.${biome} must be a number >= 0`);
+  });
+  if (!isNumber(rules.firstFinderBonus)) issues.push('firstFinderBonus must be a number >= 0');
+  if (!rules.streak || !isNumber(rules.streak.bonusPerDay) || !isNumber(rules.streak.maxBonus)) {
+    issues.push('streak needs bonusPerDay and maxBonus');
+  }
+  if (!rules.combo || !isNumber(rules.combo.windowMinutes) || !isNumber(rules.combo.bonusPerFind) || !isNumber(rules.combo.maxBonus)) {
+    issues.push('combo needs windowMinutes, bonusPerFind and maxBonus');
+  }
+  (rules.events || []).forEach((event, i) => {
+    const label = event && event.id ? `Event ${event.id}` : `Event #${i}`;
+    if (!event || typeof event.name !== 'string') issues.push(`${label}: name is required`);
+    if (!event || isNaN(Date.parse(event.start)) || isNaN(Date.parse(event.end))) {
+      issues.push(`${label}: start and end must be ISO dates`);
+    } else if (Date.parse(event.end) <= Date.parse(event.start)) {
+      issues.push(`${label}: end must be after start`);
+    }
+    if (!event || !isNumber(event.multiplier)) issues.push(`${label}: multiplier must be a number >= 0`);
+  });
+
+  if (issues.length > 0) throw new EconomyRulesError(issues);
+}
+
+function percent(share: number): string {
+  return `+${Math.round(share * 100)}%`;
+}
+
+export class Economy {
+  constructor(private readonly rules: EconomyRules = economyData as EconomyRules) {
+    validateRules(rules);
+  }
+
+  getBaseValue(rarity: string = 'Common'): number {
+    const value = this.rules.rarityValues[rarity];
+    return value === undefined ? this.rules.defaultValue : value;
+  }
+
+  getBiomeMultiplier(biome?: string): number {
+    const multiplier = biome ? this.rules.biomeMultipliers[biome] : undefined;
+    return multiplier === undefined ? 1 : multiplier;
+  }
+
+  // Events running at `time`, optionally only those that apply to `treasure`
+  getActiveEvents(time: number, treasure?: Treasure): EconomyEvent[] {
+    return this.rules.events.filter(event => {
+      if (time < Date.parse(event.start) || time >= Date.parse(event.end)) return false;
+      if (!treasure) return true;
+      if (event.rarities && !event.rarities.includes(treasure.rarity || 'Common')) return false;
+      if (event.biomes && (!treasure.biome || !event.biomes.includes(treasure.biome))) return false;
+      return true;
+    });
+  }
+
+  // Days in a row, ending today or yesterday, with at least one find
+  getStreakDays(history: CollectionEvent[], time: number): number {
+    const days: {[day: number]: boolean} = {};
+    history.forEach(event => {
+      days[Math.floor(Date.parse(event.collectedAt) / DAY_MS)] = true;
+    });
+    const today = Math.floor(time / DAY_MS);
+    let day = days[today] ? today : today - 1;
+    let streak = 0;
+    while (days[day]) {
+      streak++;
+      day--;
+    }
+    return streak;
+  }
+
+  // Finds in a row, each within the combo window of the one before, leading up to `time`
+  getComboCount(history: CollectionEvent[], time: number): number {
+    const windowMs = this.rules.combo.windowMinutes * 60 * 1000;
+    const times = history.map(event => Date.parse(event.collectedAt)).filter(t => t <= time).sort((a, b) => b - a);
+    let count = 0;
+    let previous = time;
+    for (let i = 0; i < times.length; i++) {
+      if (previous - times[i] > windowMs) break;
+      count++;
+      previous = times[i];
+    }
+    return count;
+  }
+
+  // What a treasure is worth before player-specific bonuses
+  estimateValue(treasure: Treasure, time: number = Date.now()): ScoreBreakdown {
+    return this.score(treasure, time, []);
+  }
+
+  // The award for claiming `treasure`
+  scoreClaim(treasure: Treasure, context: ClaimContext): ScoreBreakdown {
+    const bonuses: { kind: ScoreLine['kind']; label: string; share: number }[] = [];
+
+    if (context.firstFinder && this.rules.firstFinderBonus > 0) {
+      bonuses.push({ kind: 'firstFinder', label: `First finder ${percent(this.rules.firstFinderBonus)}`, share: this.rules.firstFinderBonus });
+    }
+
+    const streakDays = this.getStreakDays(context.history, context.time);
+    const streakShare = Math.min(this.rules.streak.maxBonus, streakDays * this.rules.streak.bonusPerDay);
+    if (streakShare > 0) {
+      bonuses.push({ kind: 'streak', label: `${streakDays}-day streak ${percent(streakShare)}`, share: streakShare });
+    }
+
+    const combo = this.getComboCount(context.history, context.time);
+    const comboShare = Math.min(this.rules.combo.maxBonus, combo * this.rules.combo.bonusPerFind);
+    if (comboShare > 0) {
+      bonuses.push({ kind: 'combo', label: `Combo x${combo + 1} ${percent(comboShare)}`, share: comboShare });
+    }
+
+    return this.score(treasure, context.time, bonuses);
+  }
+
+  private score(
+    treasure: Treasure,
+    time: number,
+    bonuses: { kind: ScoreLine['kind']; label: string; share: number }[]
+  ): ScoreBreakdown {
+    const rarity = treasure.rarity || 'Common';
+    const base = this.getBaseValue(rarity);
+    const biomeMultiplier = this.getBiomeMultiplier(treasure.biome);
+    const value = base * biomeMultiplier;
+
+    const lines: ScoreLine[] = [{ kind: 'base', label: `${rarity} treasure`, points: base }];
+    if (biomeMultiplier !== 1) {
+      lines.push({ kind: 'biome', label: `${treasure.biome} x${biomeMultiplier}`, points: Math.round(value - base) });
+    }
+    bonuses.forEach(bonus => {
+      lines.push({ kind: bonus.kind, label: bonus.label, points: Math.round(value * bonus.share) });
+    });
+
+    this.getActiveEvents(time, treasure).forEach(event => {
+      const subtotal = lines.reduce((sum, line) => sum + line.points, 0);
+      lines.push({ kind: 'event', label: `${event.name} x${event.multiplier}`, points: Math.round(subtotal * (event.multiplier - 1)) });
+    });
+
+    return { total: lines.reduce((sum, line) => sum + line.points, 0), lines };
+  }
+}
+
+// The lines behind an award. Events recorded before awards were itemized
+// only have their total.
+export function getAwardLines(event: CollectionEvent): ScoreLine[] {
+  if (event.breakdown && event.breakdown.length > 0) return event.breakdown;
+  return [{ kind: 'base', label: `${event.treasure.rarity || 'Common'} treasure`, points: event.points }];
+}
+
+export const economy = new Economy();
@@ -0,0 +1,33 @@
+import { ExplorationMap } from './ExplorationMap';
+
+test('reveals a radius around a point', () => {
+  const map = new ExplorationMap(50);
+  expect(map.reveal(10, 10, 2)).toBe(true);
+  expect(map.isExplored(10, 10)).toBe(true);
+  expect(map.isExplored(12, 10)).toBe(true);
+  expect(map.isExplored(12, 12)).toBe(false);
+  expect(map.reveal(10, 10, 2)).toBe(false);
+});
+
+test('encoding round-trips and stays compact', () => {
+  const map = new ExplorationMap(500);
+  map.reveal(250, 250, 8);
+  map.reveal(0, 0, 8);
+  map.reveal(499, 499, 8);
+
+  const encoded = map.encode();
+  expect(encoded.length).toBeLessThan(1000);
+
+  const restored = ExplorationMap.decode(encoded, 500);
+  expect(restored.explored).toBe(map.explored);
+  for (let y = 0; y < 500; y += 3) {
+    for (let x = 0; x < 500; x += 3) {
+      expect(restored.isExplored(x, y)).toBe(map.isExplored(x, y));
+    }
+  }
+});
+
+test('unknown encodings load as unexplored', () => {
+  expect(ExplorationMap.decode('garbage', 10).explored).toBe(0);
+  expect(ExplorationMap.decode(null, 10).explored).toBe(0);
+});
@@ -0,0 +1,104 @@
+// Fog of war - one bit per tile, set once the player has seen it.
+// Stored as run-length encoded text so a 500x500 map fits in a few KB.
+
+export const REVEAL_RADIUS = 8;
+
+// Prefix identifying the encoding, so the format can change later
+const ENCODING_PREFIX = 'rle1:';
+
+export class ExplorationMap {
+  readonly size: number;
+  private readonly bits: Uint8Array;
+  private exploredCount = 0;
+  // Bumped on every change so renderers know when to refresh
+  revision = 0;
+
+  constructor(size: number) {
+    this.size = size;
+    this.bits = new Uint8Array(Math.ceil((size * size) / 8));
+  }
+
+  get explored(): number {
+    return this.exploredCount;
+  }
+
+  isExplored(x: number, y: number): boolean {
+    if (x < 0 || y < 0 || x >= this.size || y >= this.size) return false;
+    const index = y * this.size + x;
+    return (this.bits[index >> 3] & (1 << (index & 7))) !== 0;
+  }
+
+  // Reveal every tile within `radius` of (cx, cy); returns true if anything changed
+  reveal(cx: number, cy: number, radius: number = REVEAL_RADIUS): boolean {
+    let changed = false;
+    const r2 = radius * radius;
+    for (let y = Math.max(0, cy - radius); y <= Math.min(this.size - 1, cy + radius); y++) {
+      for (let x = Math.max(0, cx - radius); x <= Math.min(this.size - 1, cx + radius); x++) {
+        const dx = x - cx;
+        const dy = y - cy;
+        if (dx * dx + dy * dy > r2) continue;
+        if (this.setExplored(y * this.size + x)) changed = true;
+      }
+    }
+    if (changed) this.revision++;
+    return changed;
+  }
+
+  // Add everything explored in `other` (same size); returns true if anything changed
+  merge(other: ExplorationMap): boolean {
+    let changed = false;
+    const total = this.size * this.size;
+    for (let i = 0; i < total; i++) {
+      if ((other.bits[i >> 3] & (1 << (i & 7))) !== 0 && this.setExplored(i)) changed = true;
+    }
+    if (changed) this.revision++;
+    return changed;
+  }
+
+  // Alternating run lengths in base 36, starting with an unexplored run
+  encode(): string {
+    const total = this.size * this.size;
+    const runs: string[] = [];
+    let current = false;
+    let length = 0;
+    for (let i = 0; i < total; i++) {
+      const bit = (this.bits[i >> 3] & (1 << (i & 7))) !== 0;
+      if (bit !== current) {
+        runs.push(length.toString(36));
+        current = bit;
+        length = 0;
+      }
+      length++;
+    }
+    runs.push(length.toString(36));
+    return ENCODING_PREFIX + runs.join(',');
+  }
+
+  static decode(encoded: string | null | undefined, size: number): ExplorationMap {
+    const map = new ExplorationMap(size);
+    if (!encoded || !encoded.startsWith(ENCODING_PREFIX)) return map;
+
+    const total = size * size;
+    let index = 0;
+    let explored = false;
+    encoded.slice(ENCODING_PREFIX.length).split(',').forEach(run => {
+      const length = parseInt(run, 36) || 0;
+      if (explored) {
+        for (let i = index; i < Math.min(total, index + length); i++) {
+          map.setExplored(i);
+        }
+      }
+      index += length;
+      explored = !explored;
+    });
+    return map;
+  }
+
+  private setExplored(index: number): boolean {
+    const mask = 1 << (index & 7);
+    if (this.bits[index >> 3] & mask) return false;
+    this.bits[index >> 3] |= mask;
+    this.exploredCount++;
+    return true;
+  }
+}
@@ -0,0 +1,205 @@
+import { CollectionEvent, LinkedIdentity, Treasure } from '../types/game';
+import { TilePosition } from './Pathfinder';
+import { API_URL } from './storage';
+import { ImportMode } from './SaveFile';
+
+// Client for the game endpoints of the local server (see server/routes/game.ts).
+// The server decides where the player is and which claims count.
+
+export interface SessionState {
+  sessionId: string;
+  userId: string;  // The account; differs from the login for linked identities
+  identities: LinkedIdentity[];
+  position: TilePosition;
+  events: CollectionEvent[];
+  expiresAt: number;  // The server ends the session then (ms)
+}
+
+// Proof of a wallet or email sign-in, sent when starting a session
+export interface AuthSession {
+  token: string;
+  address: string;
+  expiresAt: number;
+}
+
+export interface TreasureListing {
+  treasures: Treasure[];
+  nextChangeAt: number;  // When the spawned treasures change next (ms)
+}
+
+export interface ClaimResult {
+  event: CollectionEvent;
+  events: CollectionEvent[];  // The player's full history including the new event
+}
+
+export interface LinkResult {
+  identities: LinkedIdentity[];
+  events: CollectionEvent[];  // The merged history
+}
+
+export interface ImportResult {
+  events: CollectionEvent[];
+  rejected: number;  // Events in the file the server couldn't vouch for
+}
+
+// A request the server refused. `position` is where the server has the
+// player, so the client can snap back after a rejected move or claim.
+export class GameApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly position?: TilePosition
+  ) {
+    super(message);
+    this.name = 'GameApiError';
+  }
+}
+
+async function request<T>(url: string, init?: RequestInit, token?: string): Promise<T> {
+  const headers: {[name: string]: string} = {};
+  if (init?.body) headers['Content-Type'] = 'application/json';
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  const response = await fetch(url, { ...init, headers });
+  const text = await response.text();
+  const body = text ? JSON.parse(text) : null;
+  if (!response.ok) {
+    throw new GameApiError(response.status, body?.error || response.statusText, body?.position);
+  }
+  return body as T;
+}
+
+// One player's session. Moves and claims are sent one after another so the
+// server sees them in the order they happened.
+export class GameSession {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly baseUrl: string, readonly state: SessionState) {}
+
+  get id(): string {
+    return this.state.sessionId;
+  }
+
+  move(to: TilePosition): Promise<TilePosition> {
+    return this.enqueue(() =>
+      request<{ position: TilePosition }>(`${this.url}/moves`, {
+        method: 'POST',
+        body: JSON.stringify({ x: to.x, y: to.y }),
+      }).then(result => result.position)
+    );
+  }
+
+  claim(treasureId: string): Promise<ClaimResult> {
+    return this.enqueue(() =>
+      request<ClaimResult>(`${this.url}/claims`, {
+        method: 'POST',
+        body: JSON.stringify({ treasureId }),
+      })
+    );
+  }
+
+  // Send a save file's contents; the server checks it again and applies the events
+  importSave(save: string, mode: ImportMode): Promise<ImportResult> {
+    return this.enqueue(() =>
+      request<ImportResult>(`${this.url}/import`, {
+        method: 'POST',
+        body: JSON.stringify({ save, mode }),
+      })
+    );
+  }
+
+  // Link another login to the account. `proof` is a signature over
+  // linkingMessage() for wallets and the token from signing in for emails.
+  link(type: LinkedIdentity['type'], id: string, proof?: string): Promise<LinkResult> {
+    const body = type === 'email' ? { type, id, token: proof } : { type, id, signature: proof };
+    return this.enqueue(() =>
+      request<LinkResult>(`${this.url}/links`, {
+        method: 'POST',
+        body: JSON.stringify(body),
+      })
+    );
+  }
+
+  end(): Promise<void> {
+    return this.enqueue(() => request<void>(this.url, { method: 'DELETE' }));
+  }
+
+  private get url(): string {
+    return `${this.baseUrl}/sessions/${encodeURIComponent(this.id)}`;
+  }
+
+  private enqueue<T>(send: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(send);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export class GameApi {
+  constructor(private readonly baseUrl: string = API_URL) {}
+
+  // With `resume`, the server puts the player back where they last were.
+  // Wallet addresses need the token from a wallet sign-in.
+  async startSession(userId: string, walletType: string, resume: boolean = false, token?: string): Promise<GameSession> {
+    const state = await request<SessionState>(`${this.baseUrl}/sessions`, {
+      method: 'POST',
+      body: JSON.stringify({ userId, walletType, resume }),
+    }, token);
+    return new GameSession(this.baseUrl, state);
+  }
+
+  // A single-use nonce for a wallet sign-in message
+  getNonce(): Promise<{ nonce: string; expiresAt: number }> {
+    return request(`${this.baseUrl}/auth/nonce`);
+  }
+
+  // Trade a signed sign-in message (Ethereum or Solana) for an auth token
+  signIn(message: string, signature: string): Promise<AuthSession> {
+    return request<AuthSession>(`${this.baseUrl}/auth/sign-in`, {
+      method: 'POST',
+      body: JSON.stringify({ message, signature }),
+    });
+  }
+
+  // Email accounts. Registering mails a verification link (to the server's
+  // outbox in development); the account can sign in once it's followed.
+  register(email: string, password: string): Promise<{ email: string }> {
+    return request(`${this.baseUrl}/accounts`, {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+    });
+  }
+
+  verifyEmail(token: string): Promise<{ email: string }> {
+    return request(`${this.baseUrl}/accounts/verify`, {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  login(email: string, password: string): Promise<AuthSession> {
+    return request<AuthSession>(`${this.baseUrl}/auth/login`, {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+    });
+  }
+
+  requestPasswordReset(email: string): Promise<void> {
+    return request(`${this.baseUrl}/accounts/password-reset`, {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  resetPassword(token: string, password: string): Promise<{ email: string }> {
+    return request(`${this.baseUrl}/accounts/password-reset/confirm`, {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
+  listTreasures(): Promise<TreasureListing> {
+    return request<TreasureListing>(`${this.baseUrl}/treasures`);
+  }
+}
+
+export const gameApi = new GameApi();
@@ -0,0 +1,32 @@
+import { checkClaim, checkMove } from './GameRules';
+import { WorldGenerator } from './WorldGenerator';
+
+const terrain = new WorldGenerator({ seed: 73 });
+
+// First water tile next to a land tile, scanning from the map center
+function findShore() {
+  for (let y = 250; y < terrain.size; y++) {
+    for (let x = 0; x < terrain.size - 1; x++) {
+      if (terrain.getBiomeAt(x, y) !== 'water' && terrain.getBiomeAt(x + 1, y) === 'water') {
+        return { land: { x, y }, water: { x: x + 1, y } };
+      }
+    }
+  }
+  throw new Error('No shore found');
+}
+
+test('moves must be to a neighboring tile the player can enter', () => {
+  const { land, water } = findShore();
+  expect(checkMove(land, { x: land.x, y: land.y + 2 }, [], terrain)).toMatch(/one tile/);
+  expect(checkMove(land, land, [], terrain)).toMatch(/one tile/);
+  expect(checkMove(land, water, [], terrain)).toMatch(/boat/);
+  expect(checkMove(land, water, ['boat'], terrain)).toBeNull();
+});
+
+test('claims need the player on the tile and only count once', () => {
+  const treasure = { id: 'T1', x: 5, y: 5, emoji: '💎', expiresAt: 1000 };
+  expect(checkClaim({ x: 5, y: 5 }, treasure, [], 0)).toBeNull();
+  expect(checkClaim({ x: 5, y: 6 }, treasure, [], 0)).toMatch(/stand on/);
+  expect(checkClaim({ x: 5, y: 5 }, treasure, ['T1'], 0)).toMatch(/already claimed/);
+  expect(checkClaim({ x: 5, y: 5 }, treasure, [], 1000)).toMatch(/vanished/);
+});
@@ -0,0 +1,36 @@
+import { Treasure } from '../types/game';
+import { TilePosition } from './Pathfinder';
+import { checkTile } from './TerrainRules';
+import { tileDistance } from './TreasureVisibility';
+import { world, WorldGenerator } from './WorldGenerator';
+
+// Rules the server enforces. The client runs the same checks first so the
+// game stays responsive, but only the server's answer counts.
+
+// Reason a move from `from` to `to` is refused, or null if it's allowed.
+// Players move one tile at a time, diagonals included.
+export function checkMove(
+  from: TilePosition,
+  to: TilePosition,
+  items: string[] = [],
+  terrain: WorldGenerator = world
+): string | null {
+  if (!Number.isInteger(to.x) || !Number.isInteger(to.y)) return 'Invalid position';
+  if (tileDistance(from, to) !== 1) return 'Players can only move one tile at a time';
+
+  const check = checkTile(to.x, to.y, items, terrain);
+  return check.allowed ? null : check.reason || 'Blocked';
+}
+
+// Reason a claim is refused, or null if the player at `position` may take the treasure
+export function checkClaim(
+  position: TilePosition,
+  treasure: Treasure,
+  claimedIds: string[],
+  time: number
+): string | null {
+  if (treasure.id && claimedIds.includes(treasure.id)) return 'Treasure already claimed';
+  if (treasure.expiresAt !== undefined && treasure.expiresAt <= time) return 'Treasure has vanished';
+  if (treasure.x !== position.x || treasure.y !== position.y) return 'You need to stand on the treasure to claim it';
+  return null;
+}
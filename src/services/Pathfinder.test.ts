@@ -0,0 +1,75 @@
+import { findPath, TilePosition } from './Pathfinder';
+import { checkTile } from './TerrainRules';
+import { Biome, world, WorldGenerator } from './WorldGenerator';
+
+// Terrain drawn by hand: . plains (cost 1), s swamp (2), m mountain (3), ~ water
+class DrawnTerrain extends WorldGenerator {
+  constructor(private readonly rows: string[]) {
+    super({ size: rows.length });
+  }
+
+  getBiomeAt(x: number, y: number): Biome {
+    if (!this.isInBounds(x, y)) return 'water';
+    return ({ '.': 'plains', s: 'swamp', m: 'mountain', '~': 'water' } as {[tile: string]: Biome})[this.rows[y][x]];
+  }
+}
+
+function findTile(biome: string): TilePosition {
+  for (let y = 0; y < world.size; y++) {
+    for (let x = 0; x < world.size; x++) {
+      if (world.getBiomeAt(x, y) === biome) return { x, y };
+    }
+  }
+  throw new Error(`No ${biome} tile in the world`);
+}
+
+function expectContiguous(start: TilePosition, path: TilePosition[]) {
+  let previous = start;
+  path.forEach(step => {
+    expect(Math.abs(step.x - previous.x) + Math.abs(step.y - previous.y)).toBe(1);
+    previous = step;
+  });
+}
+
+test('walks a contiguous route that avoids water', () => {
+  const start = { x: 250, y: 250 };
+  const goal = { x: 240, y: 254 };
+  const path = findPath(start, goal);
+
+  expect(path).not.toBeNull();
+  expectContiguous(start, path!);
+  expect(path![path!.length - 1]).toEqual(goal);
+  path!.forEach(step => expect(world.getBiomeAt(step.x, step.y)).not.toBe('water'));
+});
+
+test('water is only reachable with a boat', () => {
+  const water = findTile('water');
+  const start = { x: 250, y: 250 };
+
+  expect(findPath(start, water)).toBeNull();
+
+  const path = findPath(start, water, { items: ['boat'] });
+  expect(path).not.toBeNull();
+  expectContiguous(start, path!);
+});
+
+test('takes the cheaper route to a tile that was already queued by a costlier one', () => {
+  // Several tiles here are reached first by a costlier route and then by a
+  // cheaper one while still waiting to be expanded
+  const terrain = new DrawnTerrain([
+    '...mssmm',
+    'sms.s~.s',
+    '.~.~m...',
+    '~..m.~..',
+    '.ssmm.~~',
+    'm~...sm.',
+    'sm..m...',
+    'mm.s..~.',
+  ]);
+  const start = { x: 0, y: 0 };
+  const path = findPath(start, { x: 7, y: 7 }, { terrain });
+
+  expect(path).not.toBeNull();
+  expectContiguous(start, path!);
+  expect(path!.reduce((cost, step) => cost + checkTile(step.x, step.y, [], terrain).cost, 0)).toBe(17);
+});
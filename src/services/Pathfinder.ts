@@ -0,0 +1,146 @@
+import { world, WorldGenerator } from './WorldGenerator';
+import { checkTile } from './TerrainRules';
+
+export interface TilePosition {
+  x: number;
+  y: number;
+}
+
+export interface PathOptions {
+  items?: string[];
+  terrain?: WorldGenerator;
+  maxNodes?: number;  // Give up after expanding this many tiles
+}
+
+const NEIGHBORS = [
+  { dx: 0, dy: -1 },
+  { dx: 1, dy: 0 },
+  { dx: 0, dy: 1 },
+  { dx: -1, dy: 0 },
+];
+
+// Binary min-heap of tile indices, each ordered by the f-score it was pushed
+// with. A tile whose score drops is pushed again rather than moved, so it can
+// be in the heap more than once; the caller skips the stale entries.
+class MinHeap {
+  private readonly items: number[] = [];
+  private readonly scores: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(index: number, score: number): void {
+    this.items.push(index);
+    this.scores.push(score);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.scores[parent] <= this.scores[i]) break;
+      this.swap(parent, i);
+      i = parent;
+    }
+  }
+
+  pop(): { index: number; score: number } {
+    const top = { index: this.items[0], score: this.scores[0] };
+    const lastIndex = this.items.pop() as number;
+    const lastScore = this.scores.pop() as number;
+    if (this.items.length > 0) {
+      this.items[0] = lastIndex;
+      this.scores[0] = lastScore;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.scores[left] < this.scores[smallest]) smallest = left;
+        if (right < this.items.length && this.scores[right] < this.scores[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(smallest, i);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.scores[a], this.scores[b]] = [this.scores[b], this.scores[a]];
+  }
+}
+
+// A* over the terrain grid using biome movement costs.
+// Returns the tiles to walk (start excluded, goal included), or null if
+// the goal can't be reached.
+export function findPath(
+  start: TilePosition,
+  goal: TilePosition,
+  options: PathOptions = {}
+): TilePosition[] | null {
+  const terrain = options.terrain || world;
+  const items = options.items || [];
+  const size = terrain.size;
+  const maxNodes = options.maxNodes || size * size;
+
+  if (start.x === goal.x && start.y === goal.y) return [];
+  if (!checkTile(goal.x, goal.y, items, terrain).allowed) return null;
+
+  const total = size * size;
+  const gScore = new Float64Array(total).fill(Infinity);
+  const fScore = new Float64Array(total).fill(Infinity);
+  const cameFrom = new Int32Array(total).fill(-1);
+  const closed = new Uint8Array(total);
+  const open = new MinHeap();
+
+  // Manhattan distance - admissible since every step costs at least 1
+  const heuristic = (x: number, y: number) => Math.abs(goal.x - x) + Math.abs(goal.y - y);
+
+  const startIndex = start.y * size + start.x;
+  const goalIndex = goal.y * size + goal.x;
+  gScore[startIndex] = 0;
+  fScore[startIndex] = heuristic(start.x, start.y);
+  open.push(startIndex, fScore[startIndex]);
+
+  let expanded = 0;
+  while (open.size > 0) {
+    const { index: current, score } = open.pop();
+    // Left behind when a cheaper route to the tile was found
+    if (closed[current] || score > fScore[current]) continue;
+    if (current === goalIndex) break;
+    closed[current] = 1;
+
+    if (++expanded > maxNodes) return null;
+
+    const cx = current % size;
+    const cy = Math.floor(current / size);
+    NEIGHBORS.forEach(({ dx, dy }) => {
+      const nx = cx + dx;
+      const ny = cy + dy;
+      if (!terrain.isInBounds(nx, ny)) return;
+
+      const neighbor = ny * size + nx;
+      if (closed[neighbor]) return;
+
+      const check = checkTile(nx, ny, items, terrain);
+      if (!check.allowed) return;
+
+      const tentative = gScore[current] + check.cost;
+      if (tentative < gScore[neighbor]) {
+        gScore[neighbor] = tentative;
+        fScore[neighbor] = tentative + heuristic(nx, ny);
+        cameFrom[neighbor] = current;
+        open.push(neighbor, fScore[neighbor]);
+      }
+    });
+  }
+
+  if (cameFrom[goalIndex] === -1) return null;
+
+  // Walk back from the goal to rebuild the route
+  const path: TilePosition[] = [];
+  for (let index = goalIndex; index !== startIndex; index = cameFrom[index]) {
+    path.push({ x: index % size, y: Math.floor(index / size) });
+  }
+  return path.reverse();
+}
@@ -0,0 +1,75 @@
+/**
+ * @jest-environment node
+ */
+import { Wallet } from 'ethers';
+import { applySave, createSaveFile, diffSave, readSaveFile, signingMessage, SaveFileError } from './SaveFile';
+import { CURRENT_USER_VERSION } from './UserMigrations';
+import { CollectionEvent, User } from '../types/game';
+
+const wallet = new Wallet('0x' + '11'.repeat(32));
+
+function event(id: string, treasureId: string, points: number, collectedAt: string): CollectionEvent {
+  return {
+    id,
+    treasureId,
+    treasure: { id: treasureId, x: 1, y: 1, emoji: '🪙' },
+    x: 1,
+    y: 1,
+    points,
+    sessionId: 's1',
+    collectedAt,
+  };
+}
+
+function user(events: CollectionEvent[], walletType: User['walletType'] = 'metamask'): User {
+  const address = walletType === 'email' ? 'email:a@b.c' : wallet.address.toLowerCase();
+  return { version: CURRENT_USER_VERSION, id: address, walletAddress: address, walletType, events, lastLogin: '2024-01-01T00:00:00.000Z' };
+}
+
+async function signedSave(u: User): Promise<string> {
+  const file = createSaveFile(u, null);
+  const signature = await wallet.signMessage(signingMessage(u.id, file.checksum));
+  return JSON.stringify({ ...file, signature: { scheme: 'eip191', address: u.id, signature } });
+}
+
+test('a signed save passes its checks', async () => {
+  const { check } = readSaveFile(await signedSave(user([event('a', 'T1', 10, '2024-01-01T10:00:00Z')])), user([]));
+  expect(check).toEqual({ checksumValid: true, signature: 'valid', problems: [] });
+});
+
+test('edits and missing signatures are caught', async () => {
+  const text = await signedSave(user([event('a', 'T1', 10, '2024-01-01T10:00:00Z')]));
+  const tampered = JSON.parse(text);
+  tampered.user.events[0].points = 10000;
+  expect(readSaveFile(JSON.stringify(tampered), user([])).check.checksumValid).toBe(false);
+
+  const unsigned = createSaveFile(user([]), null);
+  expect(readSaveFile(JSON.stringify(unsigned), user([])).check.problems).toEqual(['The file is not signed by the wallet']);
+  // Email accounts have no wallet to sign with
+  expect(readSaveFile(JSON.stringify(createSaveFile(user([], 'email'), null)), user([], 'email')).check.problems).toEqual([]);
+
+  expect(() => readSaveFile('{"hello": 1}', user([]))).toThrow(SaveFileError);
+});
+
+test('the account importing the file decides whether it must be signed', () => {
+  // Claiming to be an email account and recomputing the checksum doesn't drop the wallet signature
+  const forged = createSaveFile({ ...user([event('a', 'T1', 10, '2024-01-01T10:00:00Z')]), walletType: 'email' }, null);
+  expect(readSaveFile(JSON.stringify(forged), user([])).check).toEqual({
+    checksumValid: true,
+    signature: 'missing',
+    problems: ['The file is not signed by the wallet'],
+  });
+});
+
+test('merging keeps one event per treasure and diffs both options', () => {
+  const current = user([event('a', 'T1', 10, '2024-01-01T10:00:00Z'), event('b', 'T2', 50, '2024-01-02T10:00:00Z')]);
+  const incoming = user([event('a', 'T1', 10, '2024-01-01T10:00:00Z'), event('c', 'T3', 200, '2024-01-01T12:00:00Z'), event('d', 'T2', 50, '2024-01-03T10:00:00Z')]);
+
+  expect(applySave(current, incoming, 'merge').events.map(e => e.id)).toEqual(['a', 'c', 'b']);
+  expect(applySave(current, incoming, 'replace').events.map(e => e.id)).toEqual(['a', 'c', 'd']);
+
+  const diff = diffSave(current, incoming);
+  expect(diff.newEvents.map(e => e.id)).toEqual(['c', 'd']);
+  expect(diff.missingEvents.map(e => e.id)).toEqual(['b']);
+  expect(diff.score).toEqual({ current: 60, merged: 260, replaced: 260 });
+});
@@ -0,0 +1,239 @@
+import { sha256, toUtf8Bytes, verifyMessage } from 'ethers';
+import { CollectionEvent, User } from '../types/game';
+import { getScore } from './CollectionHistory';
+import { ExplorationMap } from './ExplorationMap';
+import { SessionSnapshot } from './SessionState';
+import { migrateUserRecord } from './UserMigrations';
+import { world } from './WorldGenerator';
+
+// Downloadable save files. A save holds the user record (collection events
+// and exploration included) and the session state. A SHA-256 checksum over
+// the contents catches corruption and edits; wallet users also sign the
+// checksum so the file is tied to their wallet.
+
+export const SAVE_FILE_FORMAT = 'treasure-hunt-save';
+export const SAVE_FILE_VERSION = 1;
+
+export type SignatureScheme = 'eip191' | 'ed25519';
+
+export interface SaveSignature {
+  scheme: SignatureScheme;   // eip191 for Ethereum wallets, ed25519 for Solana
+  address: string;
+  signature: string;         // Hex
+}
+
+export interface SaveFile {
+  format: typeof SAVE_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  user: User;
+  session: SessionSnapshot | null;
+  checksum: string;
+  signature?: SaveSignature;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export type SignatureStatus =
+  | 'valid'
+  | 'invalid'
+  | 'missing'
+  | 'unverified';  // Can't be checked here (ed25519 in the browser); the server checks it
+
+export interface SaveCheck {
+  checksumValid: boolean;
+  signature: SignatureStatus;
+  problems: string[];  // Empty if the file can be imported
+}
+
+export interface SaveDiff {
+  newEvents: CollectionEvent[];      // In the file but not in the current record
+  missingEvents: CollectionEvent[];  // In the current record but not in the file
+  score: { current: number; merged: number; replaced: number };
+  exploredTiles: { current: number; merged: number; replaced: number };
+}
+
+// Checks an ed25519 signature; supplied where a verifier is available (the server)
+export type Ed25519Verifier = (message: string, signatureHex: string, address: string) => boolean;
+
+// A file that isn't a save, or is a save this version can't read
+export class SaveFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveFileError';
+  }
+}
+
+// JSON with object keys sorted, so the same contents always hash the same
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as {[key: string]: unknown};
+    const keys = Object.keys(record).filter(key => record[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Checksum over everything except the checksum and signature themselves
+export function computeChecksum(file: Omit<SaveFile, 'checksum' | 'signature'> | SaveFile): string {
+  const { checksum, signature, ...contents } = file as SaveFile;
+  return sha256(toUtf8Bytes(canonicalJson(contents)));
+}
+
+export function createSaveFile(user: User, session: SessionSnapshot | null, exportedAt: Date = new Date()): SaveFile {
+  const contents = {
+    format: SAVE_FILE_FORMAT,
+    version: SAVE_FILE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    user,
+    session,
+  } as const;
+  return { ...contents, checksum: computeChecksum(contents) };
+}
+
+// The text the wallet signs
+export function signingMessage(address: string, checksum: string): string {
+  return `Treasure Hunt save file\nAccount: ${address}\nChecksum: ${checksum}`;
+}
+
+// Which wallet should have signed a user's saves (null for email accounts)
+export function expectedSigner(user: User): { scheme: SignatureScheme; address: string } | null {
+  if (user.walletType === 'metamask') return { scheme: 'eip191', address: user.walletAddress || user.id };
+  if (user.walletType === 'phantom') return { scheme: 'ed25519', address: user.walletAddress || user.id };
+  return null;
+}
+
+function checkSignature(
+  raw: SaveFile,
+  signer: { scheme: SignatureScheme; address: string } | null,
+  verifyEd25519?: Ed25519Verifier
+): SignatureStatus {
+  const signature = raw.signature;
+  if (!signature) return 'missing';
+  if (!signer || signature.scheme !== signer.scheme) return 'invalid';
+
+  const message = signingMessage(signature.address, raw.checksum);
+  if (signature.scheme === 'eip191') {
+    if (signature.address.toLowerCase() !== signer.address.toLowerCase()) return 'invalid';
+    try {
+      return verifyMessage(message, signature.signature).toLowerCase() === signer.address.toLowerCase() ? 'valid' : 'invalid';
+    } catch (e) {
+      return 'invalid';
+    }
+  }
+
+  if (signature.address !== signer.address) return 'invalid';
+  if (!verifyEd25519) return 'unverified';
+  try {
+    return verifyEd25519(message, signature.signature, signature.address) ? 'valid' : 'invalid';
+  } catch (e) {
+    return 'invalid';
+  }
+}
+
+// Parse and check a save file for import into `account`, the stored record
+// of the player importing it. Whether a signature is required, and whose, is
+// decided by that account - the file's own user record can be edited along
+// with its checksum. The checksum and signature are checked on the file as
+// written; the user record is then migrated to the current schema.
+export function readSaveFile(
+  text: string,
+  account: User,
+  verifyEd25519?: Ed25519Verifier
+): { file: SaveFile; check: SaveCheck } {
+  let raw: SaveFile;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new SaveFileError('This is not a save file (invalid JSON)');
+  }
+  if (!raw || raw.format !== SAVE_FILE_FORMAT) {
+    throw new SaveFileError('This is not a treasure hunt save file');
+  }
+  if (typeof raw.version !== 'number' || raw.version > SAVE_FILE_VERSION) {
+    throw new SaveFileError(`Save file version ${raw.version} is newer than this app supports`);
+  }
+
+  const checksumValid = typeof raw.checksum === 'string' && computeChecksum(raw) === raw.checksum;
+  const signer = expectedSigner(account);
+  const signature = checkSignature(raw, signer, verifyEd25519);
+
+  let user: User;
+  try {
+    user = migrateUserRecord(raw.user).user;
+  } catch (error) {
+    throw new SaveFileError(`The save file's user record is unreadable: ${(error as Error).message}`);
+  }
+
+  const problems: string[] = [];
+  if (!checksumValid) problems.push('The checksum does not match - the file was changed or is corrupted');
+  if (signature === 'invalid') problems.push('The wallet signature is not valid for this account');
+  if (signature === 'missing' && signer) problems.push('The file is not signed by the wallet');
+
+  return { file: { ...raw, user }, check: { checksumValid, signature, problems } };
+}
+
+// Events from both sides, oldest first. A treasure only counts once, so an
+// incoming event for an already claimed treasure is dropped.
+export function mergeEvents(current: CollectionEvent[], incoming: CollectionEvent[]): CollectionEvent[] {
+  const ids: {[id: string]: boolean} = {};
+  const treasures: {[treasureId: string]: boolean} = {};
+  current.forEach(event => {
+    ids[event.id] = true;
+    treasures[event.treasureId] = true;
+  });
+  const added = incoming.filter(event => {
+    if (ids[event.id] || treasures[event.treasureId]) return false;
+    ids[event.id] = true;
+    treasures[event.treasureId] = true;
+    return true;
+  });
+  return [...current, ...added].sort((a, b) => a.collectedAt.localeCompare(b.collectedAt));
+}
+
+export function mergeExploration(current: string | undefined, incoming: string | undefined): string | undefined {
+  if (!current || !incoming) return current || incoming;
+  const map = ExplorationMap.decode(current, world.size);
+  map.merge(ExplorationMap.decode(incoming, world.size));
+  return map.encode();
+}
+
+// The record that importing `incoming` would produce
+export function applySave(current: User, incoming: User, mode: ImportMode): User {
+  if (mode === 'replace') {
+    return { ...incoming, id: current.id };
+  }
+  return {
+    ...current,
+    events: mergeEvents(current.events, incoming.events),
+    exploration: mergeExploration(current.exploration, incoming.exploration),
+  };
+}
+
+function countExplored(encoded: string | undefined): number {
+  return ExplorationMap.decode(encoded, world.size).explored;
+}
+
+// What would change if `incoming` were imported over `current`
+export function diffSave(current: User, incoming: User): SaveDiff {
+  const currentIds = current.events.map(event => event.id);
+  const incomingIds = incoming.events.map(event => event.id);
+  const merged = applySave(current, incoming, 'merge');
+  return {
+    newEvents: incoming.events.filter(event => !currentIds.includes(event.id)),
+    missingEvents: current.events.filter(event => !incomingIds.includes(event.id)),
+    score: {
+      current: getScore(current.events),
+      merged: getScore(merged.events),
+      replaced: getScore(incoming.events),
+    },
+    exploredTiles: {
+      current: countExplored(current.exploration),
+      merged: countExplored(merged.exploration),
+      replaced: countExplored(incoming.exploration),
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import { needsResumePrompt, SessionSnapshot } from './SessionState';
+
+const snapshot = (savedAt: string): SessionSnapshot => ({
+  camera: { x: 250, y: 250, visibleTiles: 40, following: true },
+  panels: { treasures: false, timeline: false },
+  travelTarget: null,
+  savedAt,
+});
+
+test('only older sessions ask before resuming', () => {
+  const now = Date.parse('2024-01-01T12:00:00.000Z');
+  const hour = 60 * 60 * 1000;
+  expect(needsResumePrompt(snapshot('2024-01-01T11:30:00.000Z'), now, hour)).toBe(false);
+  expect(needsResumePrompt(snapshot('2024-01-01T10:00:00.000Z'), now, hour)).toBe(true);
+  expect(needsResumePrompt(snapshot('not a date'), now, hour)).toBe(true);
+});
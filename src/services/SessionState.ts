@@ -0,0 +1,33 @@
+import { Camera } from './Camera';
+import { TilePosition } from './Pathfinder';
+
+// What the player was doing when they left, saved per user and restored on
+// the next login. The player's position is kept by the game server.
+
+export interface SessionSnapshot {
+  camera: Camera;
+  panels: {
+    treasures: boolean;
+    timeline: boolean;
+  };
+  travelTarget: TilePosition | null;  // Where an unfinished route was heading
+  savedAt: string;                    // ISO timestamp
+}
+
+function readMinutes(value: string | undefined, fallback: number): number {
+  const minutes = Number(value);
+  return value && isFinite(minutes) && minutes >= 0 ? minutes : fallback;
+}
+
+// Sessions older than this ask before resuming (REACT_APP_RESUME_PROMPT_MINUTES,
+// default one hour); newer ones resume straight away
+export const RESUME_PROMPT_AFTER_MS = readMinutes(process.env.REACT_APP_RESUME_PROMPT_MINUTES, 60) * 60 * 1000;
+
+export function needsResumePrompt(
+  snapshot: SessionSnapshot,
+  now: number = Date.now(),
+  threshold: number = RESUME_PROMPT_AFTER_MS
+): boolean {
+  const savedAt = Date.parse(snapshot.savedAt);
+  return isNaN(savedAt) || now - savedAt > threshold;
+}
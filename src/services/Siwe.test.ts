@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+import { verifyMessage, Wallet } from 'ethers';
+import { formatSiweMessage, parseSiweMessage, SiweError, SiweMessage, SIWE_STATEMENT } from './Siwe';
+
+const wallet = new Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+
+const message: SiweMessage = {
+  chain: 'ethereum',
+  domain: 'localhost:3000',
+  address: wallet.address,
+  statement: SIWE_STATEMENT,
+  uri: 'http://localhost:3000',
+  version: '1',
+  chainId: '1',
+  nonce: 'abcdef0123456789',
+  issuedAt: '2024-01-01T00:00:00.000Z',
+  expirationTime: '2024-01-01T00:05:00.000Z',
+};
+
+test('messages follow the EIP-4361 layout and parse back', () => {
+  const text = formatSiweMessage(message);
+  expect(text).toBe([
+    'localhost:3000 wants you to sign in with your Ethereum account:',
+    wallet.address,
+    '',
+    SIWE_STATEMENT,
+    '',
+    'URI: http://localhost:3000',
+    'Version: 1',
+    'Chain ID: 1',
+    'Nonce: abcdef0123456789',
+    'Issued At: 2024-01-01T00:00:00.000Z',
+    'Expiration Time: 2024-01-01T00:05:00.000Z',
+  ].join('\n'));
+  expect(parseSiweMessage(text)).toEqual(message);
+});
+
+test('a signed message recovers the signing address', async () => {
+  const text = formatSiweMessage(message);
+  const signature = await wallet.signMessage(text);
+  expect(verifyMessage(text, signature)).toBe(parseSiweMessage(text).address);
+});
+
+test('Solana accounts use the same format', () => {
+  const solana: SiweMessage = { ...message, chain: 'solana', address: 'GsbwXfJraMomNxBcjYLcG3mxkBUiyWXAB32fGbSMQRdW', chainId: 'mainnet' };
+  const text = formatSiweMessage(solana);
+  expect(text.split('\n')[0]).toBe('localhost:3000 wants you to sign in with your Solana account:');
+  expect(parseSiweMessage(text)).toEqual(solana);
+  expect(() => parseSiweMessage(text.replace(solana.address, '0OIl'))).toThrow(/Invalid address/);
+});
+
+test('malformed messages are rejected', () => {
+  const text = formatSiweMessage(message);
+  expect(() => parseSiweMessage('hello')).toThrow(SiweError);
+  expect(() => parseSiweMessage(text.replace(wallet.address, wallet.address.toLowerCase()))).toThrow(/checksummed/);
+  expect(() => parseSiweMessage(text.replace('Nonce: abcdef0123456789\n', ''))).toThrow(/nonce/);
+  expect(() => parseSiweMessage(`${text}\nNot Before: 2024-01-01T00:00:00.000Z`)).toThrow(/Unexpected line/);
+});
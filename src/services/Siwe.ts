@@ -0,0 +1,133 @@
+import { getAddress } from 'ethers';
+
+// Sign-In With Ethereum (EIP-4361) messages, and the same format for Solana
+// accounts (CAIP-122). The client builds one around a nonce from the server
+// and has the wallet sign it; the server parses it back and checks every
+// field before trusting the address. See https://eips.ethereum.org/EIPS/eip-4361
+
+export const SIWE_STATEMENT = 'Sign in to Treasure Hunt.';
+
+export type SignInChain = 'ethereum' | 'solana';
+
+const CHAIN_NAMES: {[chain in SignInChain]: string} = {
+  ethereum: 'Ethereum',
+  solana: 'Solana',
+};
+
+export interface SiweMessage {
+  chain: SignInChain;
+  domain: string;          // host the request comes from, e.g. "localhost:3000"
+  address: string;         // EIP-55 checksummed for Ethereum, base58 public key for Solana
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: string;         // e.g. "1" for Ethereum mainnet, "mainnet" for Solana
+  nonce: string;
+  issuedAt: string;        // ISO timestamps
+  expirationTime?: string;
+}
+
+export class SiweError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiweError';
+  }
+}
+
+// Solana addresses are base58 ed25519 public keys
+export function isSolanaAddress(address: string): boolean {
+  return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address);
+}
+
+export function formatSiweMessage(message: SiweMessage): string {
+  const lines = [
+    `${message.domain} wants you to sign in with your ${CHAIN_NAMES[message.chain]} account:`,
+    message.address,
+    '',
+  ];
+  if (message.statement) lines.push(message.statement, '');
+  lines.push(
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  );
+  if (message.expirationTime) lines.push(`Expiration Time: ${message.expirationTime}`);
+  return lines.join('\n');
+}
+
+const HEADER = / wants you to sign in with your (Ethereum|Solana) account:$/;
+const FIELDS: {[label: string]: keyof SiweMessage} = {
+  'URI': 'uri',
+  'Version': 'version',
+  'Chain ID': 'chainId',
+  'Nonce': 'nonce',
+  'Issued At': 'issuedAt',
+  'Expiration Time': 'expirationTime',
+};
+
+// Parse a message produced by formatSiweMessage. Fields this app doesn't use
+// (Not Before, Request ID, Resources) are rejected rather than ignored.
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.split('\n');
+  const header = HEADER.exec(lines[0] || '');
+  if (!header) throw new SiweError('Not a sign-in message');
+  const domain = lines[0].slice(0, header.index);
+  const chain: SignInChain = header[1] === 'Solana' ? 'solana' : 'ethereum';
+
+  const address = lines[1] || '';
+  if (chain === 'ethereum') {
+    let checksummed: string;
+    try {
+      checksummed = getAddress(address);
+    } catch (e) {
+      throw new SiweError('Invalid address');
+    }
+    if (checksummed !== address) throw new SiweError('The address must be checksummed');
+  } else if (!isSolanaAddress(address)) {
+    throw new SiweError('Invalid address');
+  }
+  if (lines[2] !== '') throw new SiweError('Malformed message');
+
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] !== undefined && !lines[index].startsWith('URI: ')) {
+    statement = lines[index];
+    if (lines[index + 1] !== '') throw new SiweError('Malformed message');
+    index += 2;
+  }
+
+  const fields: {[key: string]: string} = {};
+  lines.slice(index).forEach(line => {
+    const separator = line.indexOf(': ');
+    const key = FIELDS[line.slice(0, separator)];
+    if (separator < 0 || !key) throw new SiweError(`Unexpected line: ${line}`);
+    if (fields[key] !== undefined) throw new SiweError(`Duplicate field: ${line.slice(0, separator)}`);
+    fields[key] = line.slice(separator + 2);
+  });
+
+  ['uri', 'version', 'chainId', 'nonce', 'issuedAt'].forEach(key => {
+    if (fields[key] === undefined) throw new SiweError(`Missing field: ${key}`);
+  });
+  if (fields.version !== '1') throw new SiweError('Unsupported version');
+  if (!/^[a-zA-Z0-9-]+$/.test(fields.chainId)) throw new SiweError('Invalid chain id');
+  if (!/^[a-zA-Z0-9]{8,}$/.test(fields.nonce)) throw new SiweError('Invalid nonce');
+  if (isNaN(Date.parse(fields.issuedAt))) throw new SiweError('Invalid issue time');
+  if (fields.expirationTime !== undefined && isNaN(Date.parse(fields.expirationTime))) {
+    throw new SiweError('Invalid expiration time');
+  }
+
+  return {
+    chain,
+    domain,
+    address,
+    statement,
+    uri: fields.uri,
+    version: '1',
+    chainId: fields.chainId,
+    nonce: fields.nonce,
+    issuedAt: fields.issuedAt,
+    expirationTime: fields.expirationTime,
+  };
+}
@@ -0,0 +1,40 @@
+import { ReceivedTabMessage, TabSync, TabTransport } from './TabSync';
+
+// Every tab shares one in-memory "channel"
+function createHub(): () => TabTransport {
+  const listeners = new Set<(message: ReceivedTabMessage) => void>();
+  return () => ({
+    post: message => listeners.forEach(listener => listener(message)),
+    listen: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  });
+}
+
+test('a tab does not receive its own messages', () => {
+  const connect = createHub();
+  const first = new TabSync(connect());
+  const second = new TabSync(connect());
+  const received = jest.fn();
+  first.subscribe(received);
+
+  first.post({ type: 'left', accountId: '0xabc' });
+  expect(received).not.toHaveBeenCalled();
+  second.post({ type: 'left', accountId: '0xabc' });
+  expect(received).toHaveBeenCalledWith({ type: 'left', accountId: '0xabc', tabId: second.tabId });
+});
+
+test('a new tab finds the tab already playing the account', async () => {
+  const connect = createHub();
+  const playing = new TabSync(connect());
+  const newTab = new TabSync(connect());
+  playing.subscribe(message => {
+    if (message.type === 'presence' && message.accountId === '0xabc') {
+      playing.post({ type: 'playing', accountId: '0xabc', position: { x: 3, y: 4 }, events: [] });
+    }
+  });
+
+  expect(await newTab.findActiveTab('0xabc')).toMatchObject({ type: 'playing', position: { x: 3, y: 4 } });
+  expect(await newTab.findActiveTab('0xother', 10)).toBeNull();
+});
@@ -0,0 +1,115 @@
+import { CollectionEvent } from '../types/game';
+import { TilePosition } from './Pathfinder';
+
+// Messages between tabs of the game open in the same browser. A tab playing
+// an account announces its state so other tabs on the account stay live, and
+// answers when a new tab asks whether the account is already being played.
+
+export type TabMessage =
+  | { type: 'presence'; accountId: string }  // Is anyone playing this account?
+  | { type: 'playing'; accountId: string; position: TilePosition; events: CollectionEvent[] }
+  | { type: 'state'; accountId: string; position: TilePosition; events: CollectionEvent[] }
+  | { type: 'exploration'; accountId: string; exploration: string }
+  | { type: 'left'; accountId: string };
+
+export type ReceivedTabMessage = TabMessage & { tabId: string };
+
+// How messages travel between tabs
+export interface TabTransport {
+  post(message: ReceivedTabMessage): void;
+  listen(onMessage: (message: ReceivedTabMessage) => void): () => void;
+}
+
+const CHANNEL = 'treasureHunt';
+const STORAGE_KEY = 'treasureHunt_tabSync';
+
+class BroadcastChannelTransport implements TabTransport {
+  private readonly channel = new BroadcastChannel(CHANNEL);
+
+  post(message: ReceivedTabMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  listen(onMessage: (message: ReceivedTabMessage) => void): () => void {
+    const handler = (e: MessageEvent) => onMessage(e.data);
+    this.channel.addEventListener('message', handler);
+    return () => this.channel.removeEventListener('message', handler);
+  }
+}
+
+// For browsers without BroadcastChannel: other tabs get a `storage` event
+// when a key changes, so each message is written and removed again
+class StorageEventTransport implements TabTransport {
+  post(message: ReceivedTabMessage): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, nonce: Math.random() }));
+      localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.error('Error syncing tabs:', error);
+    }
+  }
+
+  listen(onMessage: (message: ReceivedTabMessage) => void): () => void {
+    const handler = (e: StorageEvent) => {
+      if (e.key !== STORAGE_KEY || !e.newValue) return;
+      try {
+        onMessage(JSON.parse(e.newValue).message);
+      } catch (error) {
+        console.error('Unreadable tab sync message:', error);
+      }
+    };
+    window.addEventListener('storage', handler);
+    return () => window.removeEventListener('storage', handler);
+  }
+}
+
+function createTransport(): TabTransport {
+  return typeof BroadcastChannel !== 'undefined' ? new BroadcastChannelTransport() : new StorageEventTransport();
+}
+
+export class TabSync {
+  readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  private transport: TabTransport | null;
+
+  constructor(transport?: TabTransport) {
+    this.transport = transport || null;
+  }
+
+  post(message: TabMessage): void {
+    this.getTransport().post({ ...message, tabId: this.tabId });
+  }
+
+  // Messages from other tabs
+  subscribe(listener: (message: ReceivedTabMessage) => void): () => void {
+    return this.getTransport().listen(message => {
+      if (message && message.tabId !== this.tabId) listener(message);
+    });
+  }
+
+  // Ask whether another tab is playing the account. Resolves with its answer,
+  // or null if nobody answers within `timeoutMs`.
+  findActiveTab(accountId: string, timeoutMs: number = 300): Promise<ReceivedTabMessage & { type: 'playing' } | null> {
+    return new Promise(resolve => {
+      const unsubscribe = this.subscribe(message => {
+        if (message.type === 'playing' && message.accountId === accountId) {
+          clearTimeout(timer);
+          unsubscribe();
+          resolve(message);
+        }
+      });
+      const timer = setTimeout(() => {
+        unsubscribe();
+        resolve(null);
+      }, timeoutMs);
+      this.post({ type: 'presence', accountId });
+    });
+  }
+
+  // Created on first use, so merely importing this module has no side effects
+  private getTransport(): TabTransport {
+    if (!this.transport) this.transport = createTransport();
+    return this.transport;
+  }
+}
+
+export const tabSync = new TabSync();
@@ -0,0 +1,66 @@
+import { getTreasureDatabase } from './TreasureDataLoader';
+import { world, Biome, WorldGenerator } from './WorldGenerator';
+
+// How long one movement step takes - tiles with a higher cost lock
+// movement for (cost - 1) extra steps after the player enters them
+export const STEP_DURATION_MS = 150;
+
+export interface MovementRule {
+  passable: boolean;
+  cost: number;            // Steps needed to cross the tile (1 = free)
+  requiresItem?: string;   // Item that makes an impassable tile passable
+}
+
+export interface MoveCheck {
+  allowed: boolean;
+  cost: number;
+  biome: Biome;
+  reason?: string;
+}
+
+const DEFAULT_RULE: MovementRule = { passable: true, cost: 1 };
+
+// Movement rules come from the biome section of treasureData.json
+export function getMovementRule(biome: Biome): MovementRule {
+  const biomeData = getTreasureDatabase().biomes[biome];
+  return biomeData?.movement || DEFAULT_RULE;
+}
+
+// Can the player enter tile (x, y) with the given items?
+export function checkTile(
+  x: number,
+  y: number,
+  items: string[] = [],
+  terrain: WorldGenerator = world
+): MoveCheck {
+  const biome = terrain.getBiomeAt(x, y);
+
+  if (!terrain.isInBounds(x, y)) {
+    return { allowed: false, cost: 0, biome, reason: 'Edge of the world' };
+  }
+
+  const rule = getMovementRule(biome);
+  if (!rule.passable && !(rule.requiresItem && items.includes(rule.requiresItem))) {
+    return {
+      allowed: false,
+      cost: rule.cost,
+      biome,
+      reason: rule.requiresItem
+        ? `You need a ${rule.requiresItem} to cross the ${biome}`
+        : `The ${biome} is impassable`,
+    };
+  }
+
+  return { allowed: true, cost: rule.cost, biome };
+}
+
+// Items granted by collected treasures (e.g. the anchor gives a boat)
+export function getItemsFromTreasures(treasures: { grantsItem?: string }[]): string[] {
+  const items: string[] = [];
+  treasures.forEach(t => {
+    if (t.grantsItem && !items.includes(t.grantsItem)) {
+      items.push(t.grantsItem);
+    }
+  });
+  return items;
+}
@@ -0,0 +1,180 @@
+import { world, WorldGenerator } from './WorldGenerator';
+import { ExplorationMap } from './ExplorationMap';
+
+// Terrain never changes, so it is drawn once into chunk bitmaps per tile
+// size (zoom level) and each frame only composites the visible chunks.
+// Zoom is continuous, so chunks are rendered at the next power-of-two
+// tile size and scaled down slightly when composited.
+
+// Target edge length of one chunk bitmap in pixels
+const CHUNK_PIXELS = 512;
+// Upper bound on cached bitmaps across all zoom levels (~1MB each)
+const MAX_CACHED_CHUNKS = 64;
+// Grid lines only help once tiles are big enough to tell apart
+const MIN_GRID_TILE_SIZE = 8;
+// Opacity of the fog drawn over unexplored tiles
+const FOG_ALPHA = 0.85;
+
+export class TileRenderer {
+  // Insertion order doubles as LRU order
+  private readonly chunks = new Map<string, HTMLCanvasElement>();
+  // One pixel per tile; rebuilt when the exploration map changes
+  private fogCanvas: HTMLCanvasElement | null = null;
+  private fogSource: ExplorationMap | null = null;
+  private fogRevision = -1;
+
+  constructor(private readonly terrain: WorldGenerator = world) {}
+
+  // Number of tiles along one edge of a chunk at this tile size
+  chunkTiles(tileSize: number): number {
+    return Math.max(1, Math.floor(CHUNK_PIXELS / tileSize));
+  }
+
+  // Tile size the chunk bitmaps are actually rendered at
+  renderTileSize(tileSize: number): number {
+    return Math.pow(2, Math.max(0, Math.ceil(Math.log2(tileSize))));
+  }
+
+  // Composite the terrain for tiles [startX, endX) x [startY, endY)
+  drawTerrain(
+    ctx: CanvasRenderingContext2D,
+    startX: number,
+    startY: number,
+    endX: number,
+    endY: number,
+    tileSize: number
+  ): void {
+    const renderSize = this.renderTileSize(tileSize);
+    const chunkTiles = this.chunkTiles(renderSize);
+    const firstChunkX = Math.floor(startX / chunkTiles);
+    const firstChunkY = Math.floor(startY / chunkTiles);
+    const lastChunkX = Math.floor((endX - 1) / chunkTiles);
+    const lastChunkY = Math.floor((endY - 1) / chunkTiles);
+
+    for (let cy = firstChunkY; cy <= lastChunkY; cy++) {
+      for (let cx = firstChunkX; cx <= lastChunkX; cx++) {
+        const chunk = this.getChunk(cx, cy, renderSize);
+        ctx.drawImage(
+          chunk,
+          (cx * chunkTiles - startX) * tileSize,
+          (cy * chunkTiles - startY) * tileSize,
+          (chunk.width / renderSize) * tileSize,
+          (chunk.height / renderSize) * tileSize
+        );
+      }
+    }
+  }
+
+  // Dim everything the player hasn't explored yet
+  drawFog(
+    ctx: CanvasRenderingContext2D,
+    exploration: ExplorationMap,
+    startX: number,
+    startY: number,
+    endX: number,
+    endY: number,
+    tileSize: number
+  ): void {
+    const fog = this.getFogCanvas(exploration);
+    const smoothing = ctx.imageSmoothingEnabled;
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(
+      fog,
+      startX,
+      startY,
+      endX - startX,
+      endY - startY,
+      0,
+      0,
+      (endX - startX) * tileSize,
+      (endY - startY) * tileSize
+    );
+    ctx.imageSmoothingEnabled = smoothing;
+  }
+
+  clear(): void {
+    this.chunks.clear();
+    this.fogCanvas = null;
+    this.fogSource = null;
+  }
+
+  private getFogCanvas(exploration: ExplorationMap): HTMLCanvasElement {
+    if (this.fogCanvas && this.fogSource === exploration && this.fogRevision === exploration.revision) {
+      return this.fogCanvas;
+    }
+
+    const size = exploration.size;
+    const canvas = this.fogCanvas || document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      const image = ctx.createImageData(size, size);
+      const alpha = Math.round(FOG_ALPHA * 255);
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          // RGB stays 0 (black); only unexplored tiles get alpha
+          if (!exploration.isExplored(x, y)) {
+            image.data[(y * size + x) * 4 + 3] = alpha;
+          }
+        }
+      }
+      ctx.putImageData(image, 0, 0);
+    }
+
+    this.fogCanvas = canvas;
+    this.fogSource = exploration;
+    this.fogRevision = exploration.revision;
+    return canvas;
+  }
+
+  private getChunk(cx: number, cy: number, tileSize: number): HTMLCanvasElement {
+    const key = `${tileSize}:${cx}:${cy}`;
+    const cached = this.chunks.get(key);
+    if (cached) {
+      // Move to the back of the LRU order
+      this.chunks.delete(key);
+      this.chunks.set(key, cached);
+      return cached;
+    }
+
+    const chunk = this.renderChunk(cx, cy, tileSize);
+    this.chunks.set(key, chunk);
+    if (this.chunks.size > MAX_CACHED_CHUNKS) {
+      const oldest = this.chunks.keys().next().value;
+      if (oldest !== undefined) this.chunks.delete(oldest);
+    }
+    return chunk;
+  }
+
+  private renderChunk(cx: number, cy: number, tileSize: number): HTMLCanvasElement {
+    const chunkTiles = this.chunkTiles(tileSize);
+    const startX = cx * chunkTiles;
+    const startY = cy * chunkTiles;
+    const endX = Math.min(this.terrain.size, startX + chunkTiles);
+    const endY = Math.min(this.terrain.size, startY + chunkTiles);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, (endX - startX) * tileSize);
+    canvas.height = Math.max(1, (endY - startY) * tileSize);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+
+    const drawGrid = tileSize >= MIN_GRID_TILE_SIZE;
+    ctx.strokeStyle = '#222';
+    for (let x = startX; x < endX; x++) {
+      for (let y = startY; y < endY; y++) {
+        const px = (x - startX) * tileSize;
+        const py = (y - startY) * tileSize;
+        ctx.fillStyle = this.terrain.getTileColor(x, y);
+        ctx.fillRect(px, py, tileSize, tileSize);
+        if (drawGrid) {
+          ctx.strokeRect(px, py, tileSize, tileSize);
+        }
+      }
+    }
+    return canvas;
+  }
+}
+
+export const tileRenderer = new TileRenderer();
@@ -0,0 +1,49 @@
+import { loadTreasureData, TreasureDataError, CURRENT_DATA_VERSION } from './TreasureDataLoader';
+import treasureData from '../data/treasureData.json';
+
+function expectIssues(raw: unknown, patterns: RegExp[]) {
+  try {
+    loadTreasureData(raw);
+  } catch (error) {
+    expect(error).toBeInstanceOf(TreasureDataError);
+    const issues = (error as TreasureDataError).issues;
+    patterns.forEach(pattern => expect(issues.some(issue => pattern.test(issue))).toBe(true));
+    return;
+  }
+  throw new Error('Expected loadTreasureData to fail');
+}
+
+test('loads the bundled data without warnings', () => {
+  const database = loadTreasureData(treasureData);
+  expect(database.version).toBe(CURRENT_DATA_VERSION);
+  expect(database.treasures).toHaveLength(treasureData.treasures.length);
+  expect(database.warnings).toEqual([]);
+});
+
+test('migrates 0.1 files and drops col/row', () => {
+  const legacy = {
+    ...treasureData,
+    version: '0.1',
+    treasures: treasureData.treasures.map(t => ({ ...t, col: t.x, row: t.y })),
+  };
+  const database = loadTreasureData(legacy);
+  expect(database.version).toBe(CURRENT_DATA_VERSION);
+  expect(database.treasures[0]).not.toHaveProperty('col');
+});
+
+test('reports every problem at once', () => {
+  const [first, second] = treasureData.treasures;
+  expectIssues({
+    ...treasureData,
+    version: '0.1',
+    treasures: [
+      { ...first, col: first.x + 1, row: first.y },
+      { ...second, id: first.id, x: first.x, y: first.y, rarity: 'Mythic' },
+      { ...second, id: 'T999', x: 900, biome: 'lava' },
+    ],
+  }, [/col\/row/, /duplicate id/, /same position/, /unknown rarity "Mythic"/, /x\/y \(900/, /unknown biome "lava"/]);
+});
+
+test('rejects unknown versions', () => {
+  expectIssues({ ...treasureData, version: '9.0' }, [/Unsupported treasure data version "9.0"/]);
+});
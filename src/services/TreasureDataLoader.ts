@@ -0,0 +1,273 @@
+import treasureData from '../data/treasureData.json';
+import { Treasure } from '../types/game';
+import { BIOMES, Biome, world, WorldGenerator } from './WorldGenerator';
+
+// Schema, migrations and validation for treasureData.json.
+// Content authors edit the JSON by hand, so everything is checked on load
+// and all problems are reported together instead of failing one at a time.
+
+export const CURRENT_DATA_VERSION = '0.2';
+
+export type Rarity = 'Common' | 'Uncommon' | 'Rare' | 'Epic' | 'Legendary';
+export const RARITIES: Rarity[] = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'];
+
+export type Visibility = 'all' | 'detail';
+
+export interface TreasureRecord {
+  id: string;
+  x: number;
+  y: number;
+  emoji: string;
+  name: string;
+  description: string;
+  rarity: Rarity;
+  biome: Biome;
+  visibility: Visibility;
+  grantsItem?: string;
+}
+
+export interface MovementRecord {
+  passable: boolean;
+  cost: number;
+  requiresItem?: string;
+}
+
+export interface BiomeRecord {
+  color: string;
+  description: string;
+  movement: MovementRecord;
+}
+
+export interface TreasureDataFile {
+  version: string;
+  treasures: TreasureRecord[];
+  biomes: {[key in Biome]: BiomeRecord};
+}
+
+export interface TreasureDatabase {
+  version: string;
+  treasures: Treasure[];
+  biomes: {[key in Biome]: BiomeRecord};
+  warnings: string[];  // Non-fatal problems, e.g. a biome that disagrees with the terrain
+}
+
+// All validation problems found in a data file
+export class TreasureDataError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid treasure data:\n- ${issues.join('\n- ')}`);
+    this.name = 'TreasureDataError';
+    this.issues = issues;
+  }
+}
+
+type RawData = Record<string, unknown>;
+
+function isRawData(value: unknown): value is RawData {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Each migration upgrades a file from `from` to `to`, reporting anything it
+// can't carry over safely
+interface Migration {
+  from: string;
+  to: string;
+  migrate: (data: RawData, issues: string[]) => RawData;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    // 0.1 stored col/row next to x/y; they were always meant to be equal
+    from: '0.1',
+    to: '0.2',
+    migrate: (data, issues) => ({
+      ...data,
+      version: '0.2',
+      treasures: (Array.isArray(data.treasures) ? data.treasures : []).map((t: unknown, i: number) => {
+        // Anything that isn't an object is left for validation to report
+        if (!isRawData(t)) return t;
+        const { col, row, ...rest } = t;
+        if ((col !== undefined && col !== rest.x) || (row !== undefined && row !== rest.y)) {
+          issues.push(`${describe(rest, i)}: col/row (${col}, ${row}) disagree with x/y (${rest.x}, ${rest.y})`);
+        }
+        return rest;
+      }),
+    }),
+  },
+];
+
+function describe(treasure: unknown, index: number): string {
+  return isRawData(treasure) && typeof treasure.id === 'string' ? `Treasure ${treasure.id}` : `Treasure #${index}`;
+}
+
+// Bring an older file up to the current version
+export function migrateTreasureData(raw: unknown, issues: string[] = []): RawData {
+  if (!isRawData(raw)) {
+    throw new TreasureDataError(['Treasure data must be a JSON object']);
+  }
+
+  let data = raw;
+  let version = typeof data.version === 'string' ? data.version : '0.1';
+  while (version !== CURRENT_DATA_VERSION) {
+    const from = version;
+    const migration = MIGRATIONS.find(m => m.from === from);
+    if (!migration) {
+      throw new TreasureDataError([`Unsupported treasure data version "${version}"`]);
+    }
+    data = migration.migrate(data, issues);
+    version = migration.to;
+  }
+  return data;
+}
+
+// The biomes that passed, keyed by name. Only complete when no issues were added.
+function validateBiomes(raw: unknown, issues: string[]): {[key in Biome]: BiomeRecord} {
+  const records = {} as {[key in Biome]: BiomeRecord};
+  if (!isRawData(raw)) {
+    issues.push('"biomes" must be an object');
+    return records;
+  }
+
+  Object.keys(raw).forEach(key => {
+    if (!BIOMES.some(biome => biome === key)) issues.push(`Unknown biome "${key}" in biomes`);
+  });
+
+  BIOMES.forEach(key => {
+    const biome = raw[key];
+    if (!biome) {
+      issues.push(`Biome "${key}" is missing`);
+      return;
+    }
+    if (!isRawData(biome)) {
+      issues.push(`Biome "${key}" must be an object`);
+      return;
+    }
+    const { color, description, movement } = biome;
+    const problems = issues.length;
+    if (typeof color !== 'string' || !/^#[0-9A-Fa-f]{6}$/.test(color)) {
+      issues.push(`Biome "${key}": color must be a #RRGGBB hex string`);
+    }
+    if (typeof description !== 'string') {
+      issues.push(`Biome "${key}": description must be a string`);
+    }
+    if (!isRawData(movement) || typeof movement.passable !== 'boolean' || typeof movement.cost !== 'number' || movement.cost < 1) {
+      issues.push(`Biome "${key}": movement needs a boolean "passable" and a "cost" of at least 1`);
+    } else if (movement.requiresItem !== undefined && typeof movement.requiresItem !== 'string') {
+      issues.push(`Biome "${key}": movement.requiresItem must be a string`);
+    } else if (issues.length === problems && typeof color === 'string' && typeof description === 'string') {
+      records[key] = {
+        color,
+        description,
+        movement: { passable: movement.passable, cost: movement.cost, requiresItem: movement.requiresItem },
+      };
+    }
+  });
+  return records;
+}
+
+// The treasures that passed. Only complete when no issues were added.
+function validateTreasures(raw: unknown, terrain: WorldGenerator, issues: string[], warnings: string[]): Treasure[] {
+  const treasures: Treasure[] = [];
+  if (!Array.isArray(raw)) {
+    issues.push('"treasures" must be an array');
+    return treasures;
+  }
+
+  const ids: {[id: string]: boolean} = {};
+  const positions: {[key: string]: string} = {};
+
+  raw.forEach((t: unknown, i: number) => {
+    const label = describe(t, i);
+    if (!isRawData(t)) {
+      issues.push(`${label}: must be an object`);
+      return;
+    }
+    const problems = issues.length;
+
+    const { id, x, y, grantsItem } = t;
+    if (typeof id !== 'string' || !id) {
+      issues.push(`${label}: id is required`);
+    } else if (ids[id]) {
+      issues.push(`${label}: duplicate id`);
+    } else {
+      ids[id] = true;
+    }
+
+    const text = (field: string): string => {
+      const value = t[field];
+      if (typeof value === 'string' && value) return value;
+      issues.push(`${label}: ${field} is required`);
+      return '';
+    };
+    const emoji = text('emoji');
+    const name = text('name');
+    const description = text('description');
+
+    const rarity = RARITIES.find(r => r === t.rarity);
+    const biome = BIOMES.find(b => b === t.biome);
+    const validCoord = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v) && v >= 0 && v < terrain.size;
+    if (!validCoord(x) || !validCoord(y)) {
+      issues.push(`${label}: x/y (${x}, ${y}) must be integers in [0, ${terrain.size})`);
+    } else {
+      const key = `${x}-${y}`;
+      if (positions[key]) {
+        issues.push(`${label}: same position (${x}, ${y}) as ${positions[key]}`);
+      } else {
+        positions[key] = label;
+      }
+
+      if (biome && terrain.getBiomeAt(x, y) !== biome) {
+        warnings.push(`${label}: biome "${biome}" but the terrain at (${x}, ${y}) is ${terrain.getBiomeAt(x, y)}`);
+      }
+    }
+
+    if (!rarity) {
+      issues.push(`${label}: unknown rarity "${t.rarity}" (expected ${RARITIES.join(', ')})`);
+    }
+    if (!biome) {
+      issues.push(`${label}: unknown biome "${t.biome}"`);
+    }
+    const visibility = t.visibility === 'all' || t.visibility === 'detail' ? t.visibility : undefined;
+    if (!visibility) {
+      issues.push(`${label}: visibility must be "all" or "detail"`);
+    }
+    if (grantsItem !== undefined && typeof grantsItem !== 'string') {
+      issues.push(`${label}: grantsItem must be a string`);
+    }
+
+    if (issues.length === problems && typeof id === 'string' && validCoord(x) && validCoord(y)
+      && (grantsItem === undefined || typeof grantsItem === 'string')) {
+      treasures.push({ id, x, y, emoji, name, description, rarity, biome, visibility, grantsItem });
+    }
+  });
+  return treasures;
+}
+
+// Migrate and validate raw treasure data. Throws a TreasureDataError listing
+// every problem if the data can't be used.
+export function loadTreasureData(raw: unknown, terrain: WorldGenerator = world): TreasureDatabase {
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  const data = migrateTreasureData(raw, issues);
+  const biomes = validateBiomes(data.biomes, issues);
+  const treasures = validateTreasures(data.treasures, terrain, issues, warnings);
+
+  if (issues.length > 0) {
+    throw new TreasureDataError(issues);
+  }
+
+  return { version: CURRENT_DATA_VERSION, biomes, warnings, treasures };
+}
+
+let database: TreasureDatabase | null = null;
+
+// The bundled treasureData.json, validated once on first use
+export function getTreasureDatabase(): TreasureDatabase {
+  if (!database) {
+    database = loadTreasureData(treasureData);
+    database.warnings.forEach(warning => console.warn('Treasure data:', warning));
+  }
+  return database;
+}
@@ -0,0 +1,32 @@
+import { treasureSpawner } from './TreasureSpawner';
+import { world } from './WorldGenerator';
+
+const NOW = Date.UTC(2025, 0, 1, 12, 10);
+
+test('spawns the same treasures for the same window', () => {
+  const a = treasureSpawner.getActiveTreasures(NOW);
+  const b = treasureSpawner.getActiveTreasures(NOW + 60 * 1000);
+  expect(a.length).toBeGreaterThan(0);
+  expect(b).toEqual(a);
+});
+
+test('spawned treasures are alive, on land and spaced out', () => {
+  const active = treasureSpawner.getActiveTreasures(NOW);
+  active.forEach(t => {
+    expect(t.expiresAt).toBeGreaterThan(NOW);
+    expect(world.getBiomeAt(t.x, t.y)).not.toBe('water');
+  });
+
+  active.forEach((t, i) => {
+    active.slice(i + 1).forEach(other => {
+      expect(Math.max(Math.abs(t.x - other.x), Math.abs(t.y - other.y))).toBeGreaterThanOrEqual(6);
+    });
+  });
+});
+
+test('expired treasures despawn in later windows', () => {
+  const active = treasureSpawner.getActiveTreasures(NOW);
+  const latest = Math.max(...active.map(t => t.expiresAt as number));
+  const later = treasureSpawner.getActiveTreasures(latest);
+  active.forEach(t => expect(later.find(l => l.id === t.id)).toBeUndefined());
+});
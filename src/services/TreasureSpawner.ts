@@ -0,0 +1,143 @@
+import spawnRules from '../data/spawnRules.json';
+import { Treasure } from '../types/game';
+import { world, WorldGenerator, Biome, createRandom } from './WorldGenerator';
+import { checkTile } from './TerrainRules';
+
+// Dynamic treasures on top of the fixed landmarks in treasureData.json.
+// Time is cut into windows; each window spawns a batch of treasures from a
+// PRNG seeded with (world seed, window index). Every client computing the
+// same window therefore sees the same treasures in the same places.
+
+export interface SpawnTemplate {
+  emoji: string;
+  name: string;
+  description: string;
+}
+
+export interface SpawnRules {
+  windowMinutes: number;
+  spawnsPerWindow: number;                    // Spawn attempts per window
+  maxActive: number;                          // Cap on live spawned treasures
+  minSpacing: number;                         // Tiles between any two treasures
+  density: { radius: number; maxTreasures: number };
+  lifetimeWindows: {[rarity: string]: number};  // Despawn timer per rarity
+  biomeRarityWeights: {[biome: string]: {[rarity: string]: number}};
+  templates: {[rarity: string]: SpawnTemplate[]};
+}
+
+const DEFAULT_RULES = spawnRules as SpawnRules;
+
+// Mix the world seed and window index into one PRNG seed
+function windowSeed(seed: number, window: number): number {
+  let h = Math.imul(seed ^ 0x85EBCA6B, 0xC2B2AE35) ^ window;
+  h = Math.imul(h ^ (h >>> 16), 0x45D9F3B);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+function pickWeighted(weights: {[key: string]: number}, roll: number): string | null {
+  const entries = Object.keys(weights).filter(key => weights[key] > 0);
+  const total = entries.reduce((sum, key) => sum + weights[key], 0);
+  if (total <= 0) return null;
+
+  let remaining = roll * total;
+  for (let i = 0; i < entries.length; i++) {
+    remaining -= weights[entries[i]];
+    if (remaining < 0) return entries[i];
+  }
+  return entries[entries.length - 1];
+}
+
+export class TreasureSpawner {
+  constructor(
+    private readonly rules: SpawnRules = DEFAULT_RULES,
+    private readonly terrain: WorldGenerator = world
+  ) {}
+
+  get windowMs(): number {
+    return this.rules.windowMinutes * 60 * 1000;
+  }
+
+  getWindowIndex(time: number): number {
+    return Math.floor(time / this.windowMs);
+  }
+
+  // When the set of spawned treasures next changes
+  getNextWindowStart(time: number): number {
+    return (this.getWindowIndex(time) + 1) * this.windowMs;
+  }
+
+  // Treasures alive at `time`. Landmarks are only used to keep spawns
+  // from crowding them; they are not part of the result.
+  getActiveTreasures(time: number, landmarks: Treasure[] = []): Treasure[] {
+    const current = this.getWindowIndex(time);
+    const maxLifetime = Math.max(...Object.keys(this.rules.lifetimeWindows).map(k => this.rules.lifetimeWindows[k]));
+    const placed: Treasure[] = [...landmarks];
+    const active: Treasure[] = [];
+
+    // Oldest window first so long-lived treasures keep their spot
+    for (let window = current - maxLifetime + 1; window <= current; window++) {
+      this.getCandidates(window).forEach(candidate => {
+        if ((candidate.expiresAt as number) <= time) return;
+        if (active.length >= this.rules.maxActive) return;
+        if (!this.hasRoom(candidate, placed)) return;
+        placed.push(candidate);
+        active.push(candidate);
+      });
+    }
+    return active;
+  }
+
+  // Everything a window tries to spawn, before spacing and density checks
+  private getCandidates(window: number): Treasure[] {
+    const random = createRandom(windowSeed(this.terrain.seed, window));
+    const candidates: Treasure[] = [];
+
+    for (let i = 0; i < this.rules.spawnsPerWindow; i++) {
+      // Always draw the same number of values so one skipped spawn
+      // doesn't shift every spawn after it
+      const x = Math.floor(random() * this.terrain.size);
+      const y = Math.floor(random() * this.terrain.size);
+      const rarityRoll = random();
+      const templateRoll = random();
+
+      if (!checkTile(x, y, [], this.terrain).allowed) continue;
+
+      const biome: Biome = this.terrain.getBiomeAt(x, y);
+      const rarity = pickWeighted(this.rules.biomeRarityWeights[biome] || {}, rarityRoll);
+      if (!rarity) continue;
+
+      const templates = this.rules.templates[rarity] || [];
+      if (templates.length === 0) continue;
+      const template = templates[Math.floor(templateRoll * templates.length)];
+      const lifetime = this.rules.lifetimeWindows[rarity] || 1;
+
+      candidates.push({
+        id: `S${window}-${i}`,
+        x,
+        y,
+        emoji: template.emoji,
+        name: template.name,
+        description: template.description,
+        rarity,
+        biome,
+        visibility: 'all',
+        expiresAt: (window + lifetime) * this.windowMs,
+      });
+    }
+    return candidates;
+  }
+
+  // Enforce minimum spacing and the maximum density around the candidate
+  private hasRoom(candidate: Treasure, placed: Treasure[]): boolean {
+    const { minSpacing, density } = this.rules;
+    let nearby = 0;
+    for (let i = 0; i < placed.length; i++) {
+      const distance = Math.max(Math.abs(placed[i].x - candidate.x), Math.abs(placed[i].y - candidate.y));
+      if (distance < minSpacing) return false;
+      if (distance <= density.radius && ++nearby >= density.maxTreasures) return false;
+    }
+    return true;
+  }
+}
+
+export const treasureSpawner = new TreasureSpawner();
@@ -0,0 +1,48 @@
+import { Treasure } from '../types/game';
+import { TilePosition } from './Pathfinder';
+
+// 'detail' treasures only show up when zoomed in this far, close to the player
+export const DETAIL_VISIBLE_TILES = 12;
+export const DETAIL_REVEAL_DISTANCE = 3;
+// How far away the proximity detector starts picking up hidden treasures
+export const DETECTOR_RANGE = 40;
+
+export interface ProximityReading {
+  treasure: Treasure | null;
+  distance: number;   // Tiles to the nearest hidden treasure (Infinity if none)
+  strength: number;   // 0 (nothing in range) to 1 (standing on it)
+}
+
+// Chebyshev distance - a diagonal neighbor counts as one tile away
+export function tileDistance(a: TilePosition, b: TilePosition): number {
+  return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+}
+
+export function isTreasureVisible(treasure: Treasure, player: TilePosition, visibleTiles: number): boolean {
+  if (treasure.visibility !== 'detail') return true;
+  return visibleTiles <= DETAIL_VISIBLE_TILES && tileDistance(treasure, player) <= DETAIL_REVEAL_DISTANCE;
+}
+
+// Hot/cold reading for the nearest hidden treasure that hasn't been opened yet
+export function getProximity(
+  player: TilePosition,
+  treasures: Treasure[],
+  openedTreasures: {[key: string]: boolean}
+): ProximityReading {
+  let nearest: Treasure | null = null;
+  let distance = Infinity;
+
+  treasures.forEach(treasure => {
+    if (treasure.visibility !== 'detail') return;
+    if (openedTreasures[`${treasure.x}-${treasure.y}`]) return;
+
+    const d = tileDistance(treasure, player);
+    if (d < distance) {
+      distance = d;
+      nearest = treasure;
+    }
+  });
+
+  const strength = distance > DETECTOR_RANGE ? 0 : 1 - distance / DETECTOR_RANGE;
+  return { treasure: nearest, distance, strength };
+}
@@ -0,0 +1,121 @@
+import { Treasure, User } from '../types/game';
+import { economy } from './Economy';
+
+// Stored user records carry a schema version. Older records are upgraded
+// one step at a time when they are loaded.
+//   1 - anything saved before versions existed (missing fields, old col/row on treasures)
+//   2 - every field present; treasures use x/y only
+//   3 - collection events replace the stored treasures and score
+
+export const CURRENT_USER_VERSION = 3;
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// A stored record that can't be upgraded to the current version
+export class UserRecordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserRecordError';
+  }
+}
+
+// A record saved by a newer version of the app. It isn't broken, so it's left
+// as it is for that version to read.
+export class NewerUserRecordError extends UserRecordError {
+  constructor(readonly version: number) {
+    super(`Record version ${version} is newer than this app supports (${CURRENT_USER_VERSION})`);
+    this.name = 'NewerUserRecordError';
+  }
+}
+
+interface Migration {
+  from: number;
+  to: number;
+  migrate: (record: RawRecord) => RawRecord;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    to: 2,
+    migrate: record => {
+      const treasures: RawRecord[] = Array.isArray(record.treasures) ? record.treasures.filter(isRecord) : [];
+      return {
+        ...record,
+        version: 2,
+        walletAddress: record.walletAddress || '',
+        email: record.email || '',
+        walletType: record.walletType || 'other',
+        treasures: treasures.map(({ col, row, ...treasure }) => treasure),
+        // A missing score is rebuilt from the treasures rather than reset to 0
+        score: typeof record.score === 'number'
+          ? record.score
+          : treasures.reduce((sum, t) => sum + economy.getBaseValue(typeof t.rarity === 'string' ? t.rarity : undefined), 0),
+        lastLogin: record.lastLogin || new Date(0).toISOString(),
+      };
+    },
+  },
+  {
+    // There's no record of when old treasures were found; lastLogin is the
+    // best guess, and they're worth their base value. The stored score is
+    // dropped - it's derived from events now.
+    from: 2,
+    to: 3,
+    migrate: ({ treasures, score, ...record }) => ({
+      ...record,
+      version: 3,
+      events: (Array.isArray(treasures) ? treasures as Treasure[] : []).map((treasure, i) => ({
+        id: `legacy-${i}`,
+        treasureId: treasure.id || `${treasure.x}-${treasure.y}`,
+        treasure,
+        x: treasure.x,
+        y: treasure.y,
+        points: economy.getBaseValue(treasure.rarity),
+        sessionId: 'legacy',
+        collectedAt: record.lastLogin,
+      })),
+    }),
+  },
+];
+
+function validate(record: RawRecord): asserts record is RawRecord & User {
+  if (typeof record.id !== 'string' || !record.id) throw new UserRecordError('id is missing');
+  if (!Array.isArray(record.events)) throw new UserRecordError('events must be an array');
+  (record.events as unknown[]).forEach((event, i) => {
+    if (!isRecord(event) || typeof event.points !== 'number' || !isFinite(event.points) || typeof event.collectedAt !== 'string' || !event.treasure) {
+      throw new UserRecordError(`event #${i} is incomplete`);
+    }
+  });
+}
+
+// Upgrade a stored record to the current version. `migrated` tells the
+// caller whether the record changed and should be written back.
+export function migrateUserRecord(raw: unknown): { user: User; migrated: boolean } {
+  if (!isRecord(raw)) {
+    throw new UserRecordError('Record must be an object');
+  }
+
+  let record = raw;
+  let version = typeof record.version === 'number' ? record.version : 1;
+  if (version > CURRENT_USER_VERSION) {
+    throw new NewerUserRecordError(version);
+  }
+
+  const startVersion = version;
+  while (version < CURRENT_USER_VERSION) {
+    const from = version;
+    const migration = MIGRATIONS.find(m => m.from === from);
+    if (!migration) {
+      throw new UserRecordError(`No migration from version ${version}`);
+    }
+    record = migration.migrate(record);
+    version = migration.to;
+  }
+
+  validate(record);
+  return { user: record, migrated: version !== startVersion };
+}
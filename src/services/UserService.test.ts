@@ -0,0 +1,148 @@
+import { userService } from './UserService';
+import { CURRENT_USER_VERSION } from './UserMigrations';
+import { getScore } from './CollectionHistory';
+import { ExplorationMap } from './ExplorationMap';
+import { world } from './WorldGenerator';
+import { CollectionEvent } from '../types/game';
+
+function makeEvent(points: number): CollectionEvent {
+  return {
+    id: `e${points}`,
+    treasureId: 'T001',
+    treasure: { id: 'T001', x: 1, y: 2, emoji: '💎', rarity: 'Rare' },
+    x: 1,
+    y: 2,
+    points,
+    sessionId: 's1',
+    collectedAt: '2024-01-01T12:00:00.000Z',
+  };
+}
+
+beforeEach(async () => {
+  localStorage.clear();
+  await userService.clearAllData();
+});
+
+test('stores each user as its own record', async () => {
+  await userService.saveUser({ id: '0xabc', walletAddress: '0xabc' });
+  await userService.saveUser({ id: 'email:a@b.c', email: 'a@b.c' });
+
+  expect(localStorage.getItem('treasureHunt_users:0xabc')).not.toBeNull();
+  expect(localStorage.getItem('treasureHunt_users:email:a@b.c')).not.toBeNull();
+  expect(await userService.getAllUsers()).toHaveLength(2);
+  expect((await userService.getUserById('a@b.c'))?.id).toBe('email:a@b.c');
+});
+
+test('keeps exploration when the user is saved again', async () => {
+  await userService.saveUser({ id: '0xabc' });
+  await userService.saveExploration('0xabc', 'rle1:abc');
+  await userService.saveEvents('0xabc', [makeEvent(200)]);
+
+  expect((await userService.getUserById('0xabc'))?.events).toHaveLength(1);
+  expect(await userService.getExploration('0xabc')).toBe('rle1:abc');
+});
+
+test('imports users from the old single-key array', async () => {
+  localStorage.setItem('treasureHunt_userData', JSON.stringify([
+    { id: '0xold', treasures: [{ id: 'T001', x: 1, y: 2, emoji: '💎', rarity: 'Epic' }], score: 500, lastLogin: '2024-01-01T00:00:00.000Z' },
+  ]));
+
+  // A fresh instance, since the shared one has already looked for legacy data
+  let freshService = userService;
+  jest.isolateModules(() => {
+    freshService = require('./UserService').userService;
+  });
+
+  expect(getScore((await freshService.getUserById('0xold'))?.events || [])).toBe(500);
+  expect(localStorage.getItem('treasureHunt_userData')).toBeNull();
+});
+
+test('upgrades unversioned records when they are loaded', async () => {
+  localStorage.setItem('treasureHunt_users:0xold', JSON.stringify({
+    id: '0xold',
+    treasures: [{ x: 3, y: 4, col: 3, row: 4, emoji: '💎', rarity: 'Rare' }],
+  }));
+
+  const user = await userService.getUserById('0xold');
+  expect(user?.version).toBe(CURRENT_USER_VERSION);
+  expect(user?.walletType).toBe('other');
+  expect(user?.events).toHaveLength(1);
+  expect(user?.events[0]).toMatchObject({ treasureId: '3-4', x: 3, y: 4, points: 200, sessionId: 'legacy' });
+  expect(user?.events[0].treasure).toEqual({ x: 3, y: 4, emoji: '💎', rarity: 'Rare' });
+  expect(user).not.toHaveProperty('score');
+  // Written back so the upgrade only happens once
+  expect(JSON.parse(localStorage.getItem('treasureHunt_users:0xold') as string).version).toBe(CURRENT_USER_VERSION);
+});
+
+test('backs up records that cannot be read instead of dropping them', async () => {
+  await userService.saveUser({ id: '0xgood' });
+  localStorage.setItem('treasureHunt_users:0xbroken', '{not json');
+  localStorage.setItem('treasureHunt_users:0xbad', JSON.stringify({ version: CURRENT_USER_VERSION, id: '0xbad', events: 'lots' }));
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  const users = await userService.getAllUsers();
+  expect(users.map(u => u.id)).toEqual(['0xgood']);
+
+  const backups = Object.keys(localStorage)
+    .filter(key => key.startsWith('treasureHunt_backups:'))
+    .map(key => JSON.parse(localStorage.getItem(key) as string));
+  expect(backups.map(b => b.key).sort()).toEqual(['0xbad', '0xbroken']);
+  expect(backups.find(b => b.key === '0xbroken').data).toBe('{not json');
+  (console.error as jest.Mock).mockRestore();
+});
+
+test('leaves records from a newer version in place and refuses to load or write them', async () => {
+  const newer = JSON.stringify({ version: CURRENT_USER_VERSION + 1, id: '0xnew', events: [] });
+  localStorage.setItem('treasureHunt_users:0xnew', newer);
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  expect((await userService.getAllUsers()).map(u => u.id)).not.toContain('0xnew');
+  await expect(userService.getUserById('0xnew')).rejects.toThrow('newer than this app supports');
+  await expect(userService.saveUser({ id: '0xnew', events: [makeEvent(100)] })).rejects.toThrow('newer than this app supports');
+  await expect(userService.saveExploration('0xnew', 'abc')).rejects.toThrow('newer than this app supports');
+
+  expect(localStorage.getItem('treasureHunt_users:0xnew')).toBe(newer);
+  expect(Object.keys(localStorage).some(key => key.startsWith('treasureHunt_backups:'))).toBe(false);
+  (console.error as jest.Mock).mockRestore();
+});
+
+test('saving only some fields keeps the rest', async () => {
+  await userService.saveUser({ id: '0xabc', walletType: 'metamask', events: [makeEvent(300)] });
+  await userService.saveUser({ id: '0xabc' });
+
+  const user = await userService.getUserById('0xabc');
+  expect(getScore(user?.events || [])).toBe(300);
+  expect(user?.walletType).toBe('metamask');
+});
+
+test('finds users by a linked login', async () => {
+  await userService.saveUser({
+    id: '0xabc',
+    identities: [{ type: 'email', id: 'email:a@b.c', linkedAt: '2024-01-01T00:00:00.000Z' }],
+  });
+
+  expect((await userService.getUserById('email:a@b.c'))?.id).toBe('0xabc');
+  await userService.removeUser('0xabc');
+  expect(await userService.getUserById('email:a@b.c')).toBeNull();
+});
+
+test('saving keeps what another tab stored in the meantime', async () => {
+  await userService.saveUser({ id: '0xabc' });
+  const other = { ...makeEvent(50), id: 'e-other', treasureId: 'T002' };
+  await userService.saveEvents('0xabc', [other]);
+  await userService.saveEvents('0xabc', [makeEvent(200)]);
+  expect((await userService.getUserById('0xabc'))?.events.map(e => e.id).sort()).toEqual(['e-other', 'e200']);
+
+  const east = new ExplorationMap(world.size);
+  east.reveal(400, 250);
+  const west = new ExplorationMap(world.size);
+  west.reveal(100, 250);
+  await userService.saveExploration('0xabc', east.encode());
+  await userService.saveExploration('0xabc', west.encode());
+  const merged = ExplorationMap.decode(await userService.getExploration('0xabc'), world.size);
+  expect(merged.isExplored(400, 250) && merged.isExplored(100, 250)).toBe(true);
+
+  // Unless progress is being replaced
+  await userService.saveExploration('0xabc', west.encode(), true);
+  expect(await userService.getExploration('0xabc')).toBe(west.encode());
+});
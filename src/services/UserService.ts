@@ -1,111 +1,197 @@
-import { Treasure } from '../components/GameCanvas';
+import { CollectionEvent, User } from '../types/game';
+import { createStorageAdapter, StorageAdapter, StorageBackup, BACKUPS, backupKey } from './storage';
+import { CURRENT_USER_VERSION, migrateUserRecord, NewerUserRecordError } from './UserMigrations';
+import { SessionSnapshot } from './SessionState';
+import { mergeEvents, mergeExploration } from './SaveFile';
 
-// User interface for storage
-interface User {
-  id: string;
-  walletAddress?: string;
-  email?: string;
-  walletType?: 'metamask' | 'phantom' | 'email' | 'other';
-  treasures: Treasure[];
-  score: number;
-  lastLogin: string;
-}
+const USERS = 'users';
+const SESSIONS = 'sessions';
+
+// Before storage adapters, every user lived in one localStorage array
+const LEGACY_STORAGE_KEY = 'treasureHunt_userData';
+
+// User persistence on top of a pluggable storage backend
+export class UserService {
+  private legacyImport: Promise<void> | null = null;
+
+  constructor(private readonly storage: StorageAdapter) {}
 
-// Mock database - would be replaced with real DB/API calls in production
-class UserService {
-  private readonly STORAGE_KEY = 'treasureHunt_userData';
-  
   // Get all users
-  getAllUsers(): User[] {
-    const storedData = localStorage.getItem(this.STORAGE_KEY);
-    if (!storedData) return [];
-    
-    try {
-      return JSON.parse(storedData);
-    } catch (e) {
-      console.error('Error parsing user data:', e);
-      return [];
-    }
+  async getAllUsers(): Promise<User[]> {
+    await this.importLegacyData();
+    const records = await this.storage.getAll<unknown>(USERS);
+    const users = await Promise.all(records.map(record => {
+      const key = (record as Partial<User> | null)?.id;
+      if (typeof key !== 'string') {
+        // Without an id there's no key to move it by, so leave it where it is
+        console.error('Skipping user record without an id:', record);
+        return null;
+      }
+      return this.upgrade(key, record).catch(error => {
+        // Saved by a newer version of the app; it stays stored but isn't listed
+        if (!(error instanceof NewerUserRecordError)) throw error;
+        console.error(`Skipping user record "${key}":`, error.message);
+        return null;
+      });
+    }));
+    return users.filter((user): user is User => user !== null);
   }
   
   // Find user by ID (wallet address or email)
-  getUserById(id: string): User | null {
-    const users = this.getAllUsers();
-    return users.find(user => 
-      user.id === id || 
-      user.walletAddress === id || 
-      user.email === id
+  async getUserById(id: string): Promise<User | null> {
+    await this.importLegacyData();
+    const user = await this.upgrade(id, await this.storage.get<unknown>(USERS, id));
+    if (user) return user;
+
+    const users = await this.getAllUsers();
+    return users.find(u => 
+      u.walletAddress === id || 
+      u.email === id ||
+      (u.identities || []).some(identity => identity.id === id)
     ) || null;
   }
+
+  // Remove a user, e.g. one that was merged into another account
+  async removeUser(id: string): Promise<void> {
+    await this.storage.remove(USERS, id);
+    await this.storage.remove(SESSIONS, id);
+  }
   
-  // Create or update user
-  saveUser(userData: Partial<User> & { id: string }): User {
-    const users = this.getAllUsers();
-    const existingUserIndex = users.findIndex(u => u.id === userData.id);
+  // Create or update user. Fields left out keep their stored value; new
+  // users get defaults for them.
+  async saveUser(userData: Partial<User> & { id: string }): Promise<User> {
+    await this.importLegacyData();
+    const existing = await this.upgrade(userData.id, await this.storage.get<unknown>(USERS, userData.id));
+    
+    const updates: Partial<User> = {};
+    (Object.keys(userData) as (keyof User)[]).forEach(field => copyField(updates, userData, field));
     
     const updatedUser: User = {
+      walletAddress: '',
+      email: '',
+      walletType: 'other',
+      events: [],
+      ...existing,
+      ...updates,
       id: userData.id,
-      walletAddress: userData.walletAddress || '',
-      email: userData.email || '',
-      walletType: userData.walletType || 'other',
-      treasures: userData.treasures || [],
-      score: userData.score || 0,
+      version: CURRENT_USER_VERSION,
       lastLogin: new Date().toISOString(),
     };
     
-    if (existingUserIndex >= 0) {
-      // Update existing user
-      users[existingUserIndex] = {
-        ...users[existingUserIndex],
-        ...updatedUser,
-        lastLogin: new Date().toISOString(),
-      };
-    } else {
-      // Add new user
-      users.push(updatedUser);
-    }
-    
-    // Save to localStorage
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(users));
-    
+    await this.storage.put(USERS, updatedUser.id, updatedUser);
     return updatedUser;
   }
   
-  // Add treasure to user
-  addTreasureToUser(userId: string, treasure: Treasure): User | null {
-    const user = this.getUserById(userId);
+  // Save the collection history confirmed by the game server. Another tab may
+  // have stored newer finds in the meantime, so keep those too.
+  async saveEvents(userId: string, events: CollectionEvent[]): Promise<User | null> {
+    const user = await this.getUserById(userId);
     if (!user) return null;
     
-    // Check if treasure is already in collection (prevent duplicates)
-    const treasureKey = `${treasure.x}-${treasure.y}`;
-    const hasTreasure = user.treasures.some(t => `${t.x}-${t.y}` === treasureKey);
+    return this.saveUser({ ...user, events: mergeEvents(events, user.events) });
+  }
+  
+  // Get the user's encoded exploration map
+  async getExploration(userId: string): Promise<string | null> {
+    const user = await this.getUserById(userId);
+    return user?.exploration || null;
+  }
+  
+  // Save the user's encoded exploration map. Tiles explored in other tabs are
+  // kept unless `replace` is set (e.g. when a save file replaces progress).
+  async saveExploration(userId: string, exploration: string, replace: boolean = false): Promise<void> {
+    const user = await this.getUserById(userId);
+    if (!user) return;
     
-    if (!hasTreasure) {
-      user.treasures.push(treasure);
-      
-      // Calculate value to add to score
-      const valueMap: {[key: string]: number} = {
-        'Common': 10,
-        'Uncommon': 50,
-        'Rare': 200,
-        'Epic': 500,
-        'Legendary': 1000
-      };
-      
-      const treasureValue = valueMap[treasure.rarity || 'Common'] || 10;
-      user.score += treasureValue;
-      
-      return this.saveUser(user);
+    const merged = replace ? exploration : mergeExploration(user.exploration, exploration);
+    await this.storage.put(USERS, user.id, { ...user, exploration: merged });
+  }
+
+  // Bring a stored record up to the current version, writing it back if it
+  // changed. Records that can't be upgraded are backed up and read as missing;
+  // ones saved by a newer version of the app are left alone and refused, so
+  // they're neither lost nor overwritten with an older shape.
+  private async upgrade(key: string, record: unknown): Promise<User | null> {
+    if (record === null) return null;
+    try {
+      const { user, migrated } = migrateUserRecord(record);
+      if (migrated) await this.storage.put(USERS, user.id, user);
+      return user;
+    } catch (error) {
+      if (error instanceof NewerUserRecordError) throw error;
+      console.error(`Backing up unreadable user record "${key}":`, error);
+      await this.backup(key, record, (error as Error).message);
+      await this.storage.remove(USERS, key);
+      return null;
     }
-    
-    return user;
+  }
+
+  private backup(key: string, data: unknown, reason: string): Promise<void> {
+    const backup: StorageBackup = { collection: USERS, key, reason, data, backedUpAt: new Date().toISOString() };
+    return this.storage.put(BACKUPS, backupKey(USERS, key), backup);
+  }
+  
+  // Get what the user was doing when they last left
+  async getSessionState(userId: string): Promise<SessionSnapshot | null> {
+    return this.storage.get<SessionSnapshot>(SESSIONS, userId);
+  }
+  
+  async saveSessionState(userId: string, snapshot: SessionSnapshot): Promise<void> {
+    await this.storage.put(SESSIONS, userId, snapshot);
   }
   
   // Clear user data (for testing)
-  clearAllData(): void {
-    localStorage.removeItem(this.STORAGE_KEY);
+  async clearAllData(): Promise<void> {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    await this.storage.clear(USERS);
+    await this.storage.clear(SESSIONS);
   }
+
+  // Move users from the old single-key array into per-record storage, once
+  private importLegacyData(): Promise<void> {
+    if (!this.legacyImport) {
+      this.legacyImport = (async () => {
+        const storedData = localStorage.getItem(LEGACY_STORAGE_KEY);
+        if (!storedData) return;
+
+        let users: unknown;
+        try {
+          users = JSON.parse(storedData);
+        } catch (e) {
+          users = null;
+        }
+
+        if (!Array.isArray(users)) {
+          console.error('Backing up unreadable legacy user data');
+          await this.backup(LEGACY_STORAGE_KEY, storedData, 'Legacy user data is not a JSON array');
+        } else {
+          await Promise.all(users.map(async (user, i) => {
+            if (typeof user?.id !== 'string' || !user.id) {
+              await this.backup(`${LEGACY_STORAGE_KEY}#${i}`, user, 'Legacy user record has no id');
+              return;
+            }
+            // Don't overwrite a record that has already been written to the new store;
+            // the rest are migrated (or backed up) when they're first read
+            if (!(await this.storage.get<unknown>(USERS, user.id))) {
+              await this.storage.put(USERS, user.id, user);
+            }
+          }));
+        }
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+      })().catch(error => {
+        // Retry on the next call rather than caching the failure
+        this.legacyImport = null;
+        throw error;
+      });
+    }
+    return this.legacyImport;
+  }
+}
+
+// Copy one field the caller set, leaving those it left undefined
+function copyField<K extends keyof User>(target: Partial<User>, source: Partial<User>, field: K): void {
+  if (source[field] !== undefined) target[field] = source[field];
 }
 
-export const userService = new UserService();
+export const userService = new UserService(createStorageAdapter());
 export type { User };
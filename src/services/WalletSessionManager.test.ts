@@ -0,0 +1,78 @@
+import { WalletSessionEvent, WalletSessionManager } from './WalletSessionManager';
+import { Eip1193Provider, Eip1193WalletAdapter, WalletEventHandler } from './wallets';
+
+// An EIP-1193 provider that answers requests from `responses` and lets the
+// test fire wallet events
+function createProvider(responses: {[method: string]: (params?: unknown) => unknown}) {
+  const handlers: {[event: string]: WalletEventHandler[]} = {};
+  const provider: Eip1193Provider & { emit(event: string, ...args: unknown[]): void } = {
+    request: jest.fn(async ({ method, params }) => responses[method](params)),
+    on: (event, handler) => {
+      handlers[event] = [...(handlers[event] || []), handler];
+    },
+    removeListener: (event, handler) => {
+      handlers[event] = (handlers[event] || []).filter(h => h !== handler);
+    },
+    emit: (event, ...args) => (handlers[event] || []).forEach(handler => handler(...args)),
+  };
+  return provider;
+}
+
+function createWallet(provider: Eip1193Provider) {
+  return new Eip1193WalletAdapter({ id: 'io.metamask', name: 'MetaMask', chain: 'ethereum' }, provider);
+}
+
+test('tracks the network and flags one other than the required network', async () => {
+  const provider = createProvider({ eth_chainId: () => '0x1' });
+  const manager = new WalletSessionManager('0xaa36a7');
+  const events: WalletSessionEvent[] = [];
+  manager.subscribe(event => events.push(event));
+
+  await manager.attach(createWallet(provider), '0xabc');
+  expect(manager.getNetwork()).toEqual({ chainId: '0x1', name: 'Ethereum', supported: false });
+
+  provider.emit('chainChanged', '0xaa36a7');
+  expect(events[events.length - 1]).toEqual({
+    type: 'network',
+    network: { chainId: '0xaa36a7', name: 'Sepolia', supported: true },
+  });
+});
+
+test('ends the session when the wallet switches accounts or disconnects', async () => {
+  const provider = createProvider({ eth_chainId: () => '0x1' });
+  const manager = new WalletSessionManager(null);
+  const ended = jest.fn();
+  manager.subscribe(event => event.type === 'ended' && ended(event.reason));
+
+  await manager.attach(createWallet(provider), '0xAbC');
+  provider.emit('accountsChanged', ['0xabc']);
+  expect(ended).not.toHaveBeenCalled();
+  provider.emit('accountsChanged', ['0xdef']);
+  expect(ended).toHaveBeenCalledWith('accountChanged');
+
+  // Detached now; later events belong to nobody
+  provider.emit('disconnect');
+  expect(ended).toHaveBeenCalledTimes(1);
+
+  await manager.attach(createWallet(provider), '0xabc');
+  provider.emit('accountsChanged', []);
+  expect(ended).toHaveBeenLastCalledWith('disconnected');
+});
+
+test('adds a network the wallet does not know before switching to it', async () => {
+  const provider = createProvider({
+    eth_chainId: () => '0x1',
+    wallet_switchEthereumChain: () => {
+      throw Object.assign(new Error('Unrecognized chain ID'), { code: 4902 });
+    },
+    wallet_addEthereumChain: () => null,
+  });
+  const manager = new WalletSessionManager('0x2105');
+
+  await manager.attach(createWallet(provider), '0xabc');
+  await manager.switchNetwork();
+  expect(provider.request).toHaveBeenLastCalledWith({
+    method: 'wallet_addEthereumChain',
+    params: [expect.objectContaining({ chainId: '0x2105', chainName: 'Base' })],
+  });
+});
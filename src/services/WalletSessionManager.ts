@@ -0,0 +1,133 @@
+import networks from '../data/networks.json';
+import { WalletAdapter } from './wallets';
+
+// Watches the wallet a game session was started with. The network it's on is
+// shown to the player, and the game session ends when the wallet disconnects
+// or switches to another account - the new account has to sign in itself.
+
+export type WalletEndReason = 'disconnected' | 'accountChanged';
+
+export interface NetworkInfo {
+  chainId: string;     // Hex for EVM chains, e.g. "0x1"; "solana" for Phantom
+  name: string;
+  supported: boolean;  // False when the game requires another network
+}
+
+export type WalletSessionEvent =
+  | { type: 'network'; network: NetworkInfo }
+  | { type: 'ended'; reason: WalletEndReason };
+
+// The network players must be on (REACT_APP_CHAIN_ID, hex or decimal); any
+// network will do when it's unset
+export const REQUIRED_CHAIN_ID = normalizeChainId(process.env.REACT_APP_CHAIN_ID);
+
+export function normalizeChainId(chainId: string | number | undefined): string | null {
+  if (chainId === undefined || chainId === '') return null;
+  const value = typeof chainId === 'number' ? chainId : Number(chainId);
+  return isFinite(value) && value > 0 ? `0x${value.toString(16)}` : null;
+}
+
+export function describeNetwork(chainId: string, required: string | null = REQUIRED_CHAIN_ID): NetworkInfo {
+  const known = networks.find(network => network.chainId === chainId);
+  return {
+    chainId,
+    name: known ? known.chainName : `Chain ${parseInt(chainId, 16)}`,
+    supported: required === null || chainId === required,
+  };
+}
+
+interface Connection {
+  adapter: WalletAdapter;
+  address: string;
+  stopWatching: () => void;
+}
+
+export class WalletSessionManager {
+  private connection: Connection | null = null;
+  private network: NetworkInfo | null = null;
+  private readonly listeners = new Set<(event: WalletSessionEvent) => void>();
+
+  constructor(private readonly requiredChainId: string | null = REQUIRED_CHAIN_ID) {}
+
+  // The wallet the player signed in with, while attached
+  getAdapter(): WalletAdapter | null {
+    return this.connection ? this.connection.adapter : null;
+  }
+
+  // The network of the attached wallet, or null before it's known
+  getNetwork(): NetworkInfo | null {
+    return this.network;
+  }
+
+  subscribe(listener: (event: WalletSessionEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Start watching the wallet `address` signed in with
+  async attach(adapter: WalletAdapter, address: string): Promise<void> {
+    this.detach();
+    const connection: Connection = { adapter, address, stopWatching: () => undefined };
+    this.connection = connection;
+    connection.stopWatching = adapter.watch({
+      onAccount: account => this.handleAccount(connection, account),
+      onChain: chainId => this.setNetwork(connection, chainId),
+      onDisconnect: () => this.end(connection, 'disconnected'),
+    });
+
+    if (adapter.info.chain === 'solana') {
+      this.emitNetwork({ chainId: 'solana', name: 'Solana', supported: true });
+    } else if (adapter.getChainId) {
+      try {
+        this.setNetwork(connection, await adapter.getChainId());
+      } catch (error) {
+        console.error('Error reading the wallet network:', error);
+      }
+    }
+  }
+
+  // Stop watching, e.g. when the player logs out
+  detach(): void {
+    if (this.connection) this.connection.stopWatching();
+    this.connection = null;
+    this.network = null;
+  }
+
+  // Ask the wallet to switch to `chainId` (the required network by default)
+  async switchNetwork(chainId: string | null = this.requiredChainId): Promise<void> {
+    const adapter = this.getAdapter();
+    if (!adapter || !adapter.switchChain) throw new Error('This wallet can\'t switch networks');
+    if (chainId) await adapter.switchChain(chainId);
+  }
+
+  private handleAccount(connection: Connection, account: string | null): void {
+    if (account === null) {
+      this.end(connection, 'disconnected');
+    } else if (!sameAddress(connection.adapter, account, connection.address)) {
+      this.end(connection, 'accountChanged');
+    }
+  }
+
+  private setNetwork(connection: Connection, chainId: string): void {
+    if (connection !== this.connection) return;
+    this.emitNetwork(describeNetwork(normalizeChainId(chainId) || chainId, this.requiredChainId));
+  }
+
+  private emitNetwork(network: NetworkInfo): void {
+    this.network = network;
+    this.listeners.forEach(listener => listener({ type: 'network', network }));
+  }
+
+  private end(connection: Connection, reason: WalletEndReason): void {
+    if (connection !== this.connection) return;
+    this.detach();
+    this.listeners.forEach(listener => listener({ type: 'ended', reason }));
+  }
+}
+
+// Ethereum addresses are case-insensitive, Solana's base58 ones are not
+function sameAddress(adapter: WalletAdapter, a: string, b: string): boolean {
+  return adapter.info.chain === 'ethereum' ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+export const walletSessions = new WalletSessionManager();
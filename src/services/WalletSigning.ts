@@ -0,0 +1,64 @@
+import { getAddress } from 'ethers';
+import { SaveSignature } from './SaveFile';
+import { formatSiweMessage, SiweMessage, SIWE_STATEMENT } from './Siwe';
+import { AuthSession, gameApi } from './GameApi';
+import { walletSessions } from './WalletSessionManager';
+import { walletRegistry, WalletAdapter, WalletChain } from './wallets';
+
+// How long a sign-in message stays valid; the session itself lasts longer
+const SIWE_MESSAGE_TTL_MS = 5 * 60 * 1000;
+
+// The wallet to sign with for a chain: the one the player signed in with, or
+// else the first one installed
+function walletFor(chain: WalletChain): WalletAdapter {
+  const attached = walletSessions.getAdapter();
+  const wallet = attached && attached.info.chain === chain ? attached : walletRegistry.defaultFor(chain);
+  if (!wallet) throw new Error(`No ${chain === 'ethereum' ? 'Ethereum' : 'Solana'} wallet is available`);
+  return wallet;
+}
+
+// Ask the player's wallet to sign a message. Returns null for accounts
+// without a wallet (email).
+export async function signWithWallet(
+  walletType: 'metamask' | 'phantom' | 'email' | 'other',
+  address: string,
+  message: string
+): Promise<SaveSignature | null> {
+  if (walletType === 'metamask') {
+    return { scheme: 'eip191', address, signature: await walletFor('ethereum').signMessage(address, message) };
+  }
+  if (walletType === 'phantom') {
+    return { scheme: 'ed25519', address, signature: await walletFor('solana').signMessage(address, message) };
+  }
+  return null;
+}
+
+function signInMessage(fields: Pick<SiweMessage, 'chain' | 'address' | 'chainId' | 'nonce'>): string {
+  const issuedAt = new Date();
+  return formatSiweMessage({
+    ...fields,
+    domain: window.location.host,
+    statement: SIWE_STATEMENT,
+    uri: window.location.origin,
+    version: '1',
+    issuedAt: issuedAt.toISOString(),
+    expirationTime: new Date(issuedAt.getTime() + SIWE_MESSAGE_TTL_MS).toISOString(),
+  });
+}
+
+// Sign a login message around a server nonce (EIP-4361 for Ethereum wallets,
+// its Solana counterpart otherwise) and trade it for a token proving the
+// player owns `address`. Every wallet ends up with the same kind of session.
+export async function signInWithWallet(wallet: WalletAdapter, address: string): Promise<AuthSession> {
+  const { nonce } = await gameApi.getNonce();
+  const chain = wallet.info.chain;
+  const message = chain === 'ethereum'
+    ? signInMessage({
+        chain,
+        address: getAddress(address),
+        chainId: wallet.getChainId ? String(parseInt(await wallet.getChainId(), 16)) : '1',
+        nonce,
+      })
+    : signInMessage({ chain, address, chainId: 'mainnet', nonce });
+  return gameApi.signIn(message, await wallet.signMessage(address, message));
+}
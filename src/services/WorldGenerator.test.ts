@@ -0,0 +1,34 @@
+import { WorldGenerator, DEFAULT_WORLD_SEED, BIOMES } from './WorldGenerator';
+import treasureData from '../data/treasureData.json';
+
+test('same seed produces the same terrain', () => {
+  const a = new WorldGenerator({ seed: 42 });
+  const b = new WorldGenerator({ seed: 42 });
+  for (let i = 0; i < 50; i++) {
+    const x = (i * 37) % 500;
+    const y = (i * 91) % 500;
+    expect(a.getBiomeAt(x, y)).toBe(b.getBiomeAt(x, y));
+    expect(a.getTileColor(x, y)).toBe(b.getTileColor(x, y));
+  }
+});
+
+test('elevation and moisture stay in [0, 1]', () => {
+  const world = new WorldGenerator();
+  for (let x = 0; x < 500; x += 25) {
+    for (let y = 0; y < 500; y += 25) {
+      const tile = world.getTile(x, y);
+      expect(tile.elevation).toBeGreaterThanOrEqual(0);
+      expect(tile.elevation).toBeLessThanOrEqual(1);
+      expect(tile.moisture).toBeGreaterThanOrEqual(0);
+      expect(tile.moisture).toBeLessThanOrEqual(1);
+      expect(BIOMES).toContain(tile.biome);
+    }
+  }
+});
+
+test('treasure data biomes match the default world', () => {
+  const world = new WorldGenerator({ seed: DEFAULT_WORLD_SEED });
+  treasureData.treasures.forEach(t => {
+    expect({ id: t.id, biome: world.getBiomeAt(t.x, t.y) }).toEqual({ id: t.id, biome: t.biome });
+  });
+});
@@ -0,0 +1,250 @@
+// World generation - single source of truth for terrain
+// Every tile gets an elevation and a moisture value from seeded noise,
+// and the biome is derived from those two values. Rendering, gameplay
+// and data tooling should all ask this module what is at (x, y).
+
+export type Biome =
+  | 'forest'
+  | 'desert'
+  | 'mountain'
+  | 'water'
+  | 'plains'
+  | 'beach'
+  | 'grassland'
+  | 'swamp';
+
+export const BIOMES: Biome[] = [
+  'forest',
+  'desert',
+  'mountain',
+  'water',
+  'plains',
+  'beach',
+  'grassland',
+  'swamp',
+];
+
+export interface WorldConfig {
+  seed: number;
+  size: number;
+  seaLevel: number;       // Elevation below this is water
+  beachWidth: number;     // Elevation band above sea level that is beach
+  mountainLevel: number;  // Elevation above this is mountain
+}
+
+export interface TileInfo {
+  x: number;
+  y: number;
+  elevation: number;
+  moisture: number;
+  biome: Biome;
+}
+
+// Seed used when REACT_APP_WORLD_SEED is not set
+export const DEFAULT_WORLD_SEED = 73;
+
+const DEFAULT_CONFIG: WorldConfig = {
+  seed: DEFAULT_WORLD_SEED,
+  size: 500,
+  seaLevel: 0.38,
+  beachWidth: 0.03,
+  mountainLevel: 0.66,
+};
+
+// Noise variation colors for natural look
+const VARIATION_COLORS: {[key in Biome]: string[]} = {
+  forest: ['#1B5E20', '#2E7D32', '#388E3C', '#43A047', '#4CAF50'],
+  desert: ['#FBC02D', '#F9A825', '#F57F17', '#FFB300', '#FFCA28'],
+  mountain: ['#795548', '#6D4C41', '#5D4037', '#8D6E63', '#A1887F'],
+  water: ['#1976D2', '#1565C0', '#0D47A1', '#2196F3', '#42A5F5'],
+  plains: ['#8BC34A', '#7CB342', '#689F38', '#9CCC65', '#AED581'],
+  beach: ['#FFD54F', '#FFCA28', '#FFC107', '#FFE082', '#FFECB3'],
+  grassland: ['#7CB342', '#689F38', '#558B2F', '#8BC34A', '#9CCC65'],
+  swamp: ['#4E342E', '#5D4037', '#6D4C41', '#3E2723', '#4E342E'],
+};
+
+// Small, fast seeded PRNG (mulberry32)
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Classic 2D Perlin gradient noise with a seeded permutation table
+class PerlinNoise {
+  private readonly perm: Uint8Array;
+
+  constructor(seed: number) {
+    const random = createRandom(seed);
+    const p = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) p[i] = i;
+    // Fisher-Yates shuffle
+    for (let i = 255; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      const tmp = p[i];
+      p[i] = p[j];
+      p[j] = tmp;
+    }
+    this.perm = new Uint8Array(512);
+    for (let i = 0; i < 512; i++) this.perm[i] = p[i & 255];
+  }
+
+  // Returns a value roughly in [-1, 1]
+  noise(x: number, y: number): number {
+    const xi = Math.floor(x) & 255;
+    const yi = Math.floor(y) & 255;
+    const xf = x - Math.floor(x);
+    const yf = y - Math.floor(y);
+    const u = fade(xf);
+    const v = fade(yf);
+
+    const p = this.perm;
+    const aa = p[p[xi] + yi];
+    const ab = p[p[xi] + yi + 1];
+    const ba = p[p[xi + 1] + yi];
+    const bb = p[p[xi + 1] + yi + 1];
+
+    const x1 = lerp(grad(aa, xf, yf), grad(ba, xf - 1, yf), u);
+    const x2 = lerp(grad(ab, xf, yf - 1), grad(bb, xf - 1, yf - 1), u);
+    return lerp(x1, x2, v);
+  }
+
+  // Fractal Brownian motion - several octaves summed, normalized to [0, 1]
+  fbm(x: number, y: number, octaves: number): number {
+    let total = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let max = 0;
+    for (let i = 0; i < octaves; i++) {
+      total += this.noise(x * frequency, y * frequency) * amplitude;
+      max += amplitude;
+      amplitude *= 0.5;
+      frequency *= 2;
+    }
+    // Perlin output rarely leaves [-0.7, 0.7]; stretch it to use the full range
+    const value = (total / max) / 0.7;
+    return Math.max(0, Math.min(1, (value + 1) / 2));
+  }
+}
+
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + t * (b - a);
+}
+
+function grad(hash: number, x: number, y: number): number {
+  switch (hash & 7) {
+    case 0: return x + y;
+    case 1: return -x + y;
+    case 2: return x - y;
+    case 3: return -x - y;
+    case 4: return x;
+    case 5: return -x;
+    case 6: return y;
+    default: return -y;
+  }
+}
+
+// Hash used to pick a color variation per tile
+function tileHash(seed: number, x: number, y: number): number {
+  let h = (x * 73856093) ^ (y * 19349663) ^ seed;
+  h = Math.imul(h ^ (h >>> 13), 0x5bd1e995);
+  return (h ^ (h >>> 15)) >>> 0;
+}
+
+export class WorldGenerator {
+  readonly config: WorldConfig;
+  private readonly elevationNoise: PerlinNoise;
+  private readonly moistureNoise: PerlinNoise;
+  // Biome index + 1 per tile, 0 means not computed yet
+  private readonly biomeCache: Uint8Array;
+
+  constructor(config: Partial<WorldConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.elevationNoise = new PerlinNoise(this.config.seed);
+    this.moistureNoise = new PerlinNoise(this.config.seed ^ 0x9E3779B9);
+    this.biomeCache = new Uint8Array(this.config.size * this.config.size);
+  }
+
+  get seed(): number {
+    return this.config.seed;
+  }
+
+  get size(): number {
+    return this.config.size;
+  }
+
+  isInBounds(x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < this.config.size && y < this.config.size;
+  }
+
+  // Elevation in [0, 1]; sea level and mountains are thresholds on this value
+  getElevation(x: number, y: number): number {
+    return this.elevationNoise.fbm(x / 120, y / 120, 5);
+  }
+
+  // Moisture in [0, 1]; picks between desert, plains, grassland, forest and swamp
+  getMoisture(x: number, y: number): number {
+    return this.moistureNoise.fbm(x / 160 + 100, y / 160 + 100, 4);
+  }
+
+  getBiomeAt(x: number, y: number): Biome {
+    if (!this.isInBounds(x, y)) return 'water';
+
+    const index = y * this.config.size + x;
+    const cached = this.biomeCache[index];
+    if (cached) return BIOMES[cached - 1];
+
+    const biome = this.classify(this.getElevation(x, y), this.getMoisture(x, y));
+    this.biomeCache[index] = BIOMES.indexOf(biome) + 1;
+    return biome;
+  }
+
+  getTile(x: number, y: number): TileInfo {
+    return {
+      x,
+      y,
+      elevation: this.getElevation(x, y),
+      moisture: this.getMoisture(x, y),
+      biome: this.getBiomeAt(x, y),
+    };
+  }
+
+  // Render color for a tile - biome palette with a deterministic variation
+  getTileColor(x: number, y: number): string {
+    const palette = VARIATION_COLORS[this.getBiomeAt(x, y)];
+    return palette[tileHash(this.config.seed, x, y) % palette.length];
+  }
+
+  private classify(elevation: number, moisture: number): Biome {
+    const { seaLevel, beachWidth, mountainLevel } = this.config;
+
+    if (elevation < seaLevel) return 'water';
+    if (elevation < seaLevel + beachWidth) return 'beach';
+    if (elevation > mountainLevel) return 'mountain';
+
+    // Wet lowlands turn into swamp
+    if (moisture > 0.6 && elevation < seaLevel + 0.14) return 'swamp';
+    if (moisture > 0.54) return 'forest';
+    if (moisture > 0.47) return 'grassland';
+    if (moisture > 0.4) return 'plains';
+    return 'desert';
+  }
+}
+
+function readSeedFromEnv(): number {
+  const raw = process.env.REACT_APP_WORLD_SEED;
+  const parsed = raw ? parseInt(raw, 10) : NaN;
+  return isNaN(parsed) ? DEFAULT_WORLD_SEED : parsed;
+}
+
+// Shared world instance used by the game
+export const world = new WorldGenerator({ seed: readSeedFromEnv() });
@@ -0,0 +1,74 @@
+import { StorageAdapter } from './StorageAdapter';
+
+const STORE_NAME = 'records';
+const COLLECTION_INDEX = 'collection';
+
+interface StoredRecord<T> {
+  collection: string;
+  key: string;
+  value: T;
+}
+
+// Wrap an IDBRequest in a promise
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// All collections share one object store keyed by [collection, key]
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly name = 'indexedDB';
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly databaseName: string = 'treasureHunt') {}
+
+  async get<T>(collection: string, key: string): Promise<T | null> {
+    const store = await this.store('readonly');
+    const record = await request<StoredRecord<T> | undefined>(store.get([collection, key]));
+    return record ? record.value : null;
+  }
+
+  async getAll<T>(collection: string): Promise<T[]> {
+    const store = await this.store('readonly');
+    const records = await request<StoredRecord<T>[]>(store.index(COLLECTION_INDEX).getAll(collection));
+    return records.map(record => record.value);
+  }
+
+  async put<T>(collection: string, key: string, value: T): Promise<void> {
+    const store = await this.store('readwrite');
+    await request(store.put({ collection, key, value }));
+  }
+
+  async remove(collection: string, key: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await request(store.delete([collection, key]));
+  }
+
+  async clear(collection: string): Promise<void> {
+    const store = await this.store('readwrite');
+    const keys = await request(store.index(COLLECTION_INDEX).getAllKeys(collection));
+    await Promise.all(keys.map(key => request(store.delete(key))));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(this.databaseName, 1);
+        req.onupgradeneeded = () => {
+          const store = req.result.createObjectStore(STORE_NAME, { keyPath: ['collection', 'key'] });
+          store.createIndex(COLLECTION_INDEX, 'collection');
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+}
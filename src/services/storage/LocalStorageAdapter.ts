@@ -0,0 +1,72 @@
+import { StorageAdapter, StorageBackup, BACKUPS, backupKey } from './StorageAdapter';
+
+// One localStorage entry per record: "<prefix><collection>:<key>".
+// Entries that aren't valid JSON are moved to the backups collection and
+// read as missing.
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localStorage';
+
+  constructor(private readonly prefix: string = 'treasureHunt_') {}
+
+  async get<T>(collection: string, key: string): Promise<T | null> {
+    return this.read<T>(collection, key);
+  }
+
+  async getAll<T>(collection: string): Promise<T[]> {
+    const collectionPrefix = `${this.prefix}${collection}:`;
+    const records: T[] = [];
+    this.keysIn(collection).forEach(storageKey => {
+      const record = this.read<T>(collection, storageKey.slice(collectionPrefix.length));
+      if (record !== null) records.push(record);
+    });
+    return records;
+  }
+
+  async put<T>(collection: string, key: string, value: T): Promise<void> {
+    localStorage.setItem(this.storageKey(collection, key), JSON.stringify(value));
+  }
+
+  async remove(collection: string, key: string): Promise<void> {
+    localStorage.removeItem(this.storageKey(collection, key));
+  }
+
+  async clear(collection: string): Promise<void> {
+    this.keysIn(collection).forEach(storageKey => localStorage.removeItem(storageKey));
+  }
+
+  private read<T>(collection: string, key: string): T | null {
+    const storageKey = this.storageKey(collection, key);
+    const stored = localStorage.getItem(storageKey);
+    if (!stored) return null;
+
+    try {
+      return JSON.parse(stored);
+    } catch (e) {
+      console.error(`Backing up unreadable record ${collection}/${key}:`, e);
+      const backup: StorageBackup = {
+        collection,
+        key,
+        reason: `Invalid JSON: ${(e as Error).message}`,
+        data: stored,
+        backedUpAt: new Date().toISOString(),
+      };
+      localStorage.setItem(this.storageKey(BACKUPS, backupKey(collection, key)), JSON.stringify(backup));
+      localStorage.removeItem(storageKey);
+      return null;
+    }
+  }
+
+  private storageKey(collection: string, key: string): string {
+    return `${this.prefix}${collection}:${key}`;
+  }
+
+  private keysIn(collection: string): string[] {
+    const collectionPrefix = `${this.prefix}${collection}:`;
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const storageKey = localStorage.key(i);
+      if (storageKey && storageKey.startsWith(collectionPrefix)) keys.push(storageKey);
+    }
+    return keys;
+  }
+}
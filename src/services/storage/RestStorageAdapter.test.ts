@@ -0,0 +1,50 @@
+import { RestStorageAdapter } from './RestStorageAdapter';
+
+// Answers every request with `status` and `body`
+function mockFetch(status: number, body = '') {
+  const fetchMock = jest.fn(async (url: string, init?: RequestInit) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 404 ? 'Not Found' : 'Status',
+    text: async () => body,
+  }));
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+const adapter = new RestStorageAdapter('http://localhost:4000/api');
+
+test('reads records and reads a missing one as null', async () => {
+  const fetchMock = mockFetch(200, '{"id":"0xabc"}');
+  expect(await adapter.get('users', 'email:a@b.c')).toEqual({ id: '0xabc' });
+  expect(fetchMock).toHaveBeenCalledWith('http://localhost:4000/api/storage/users/email%3Aa%40b.c');
+
+  mockFetch(200, '[{"id":"0xabc"}]');
+  expect(await adapter.getAll('users')).toEqual([{ id: '0xabc' }]);
+
+  mockFetch(404, '{"error":"No record"}');
+  expect(await adapter.get('users', '0xdef')).toBeNull();
+});
+
+test('writes and removes with the matching methods', async () => {
+  const fetchMock = mockFetch(204);
+  await adapter.put('users', '0xabc', { id: '0xabc' });
+  await adapter.remove('users', '0xabc');
+  await adapter.clear('users');
+
+  expect(fetchMock.mock.calls).toEqual([
+    ['http://localhost:4000/api/storage/users/0xabc', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"id":"0xabc"}',
+    }],
+    ['http://localhost:4000/api/storage/users/0xabc', { method: 'DELETE' }],
+    ['http://localhost:4000/api/storage/users', { method: 'DELETE' }],
+  ]);
+});
+
+test('failed requests throw', async () => {
+  mockFetch(500, '{"error":"Internal server error"}');
+  await expect(adapter.getAll('users')).rejects.toThrow('Storage request failed: 500');
+  await expect(adapter.put('users', '0xabc', { id: '0xabc' })).rejects.toThrow('Storage request failed: 500');
+});
@@ -0,0 +1,52 @@
+import { StorageAdapter } from './StorageAdapter';
+
+// Talks to the storage endpoints of the local server (see server/routes/storage.ts):
+//   GET    /storage/:collection        -> all records
+//   GET    /storage/:collection/:key   -> one record (404 if missing)
+//   PUT    /storage/:collection/:key   -> create or replace
+//   DELETE /storage/:collection/:key
+//   DELETE /storage/:collection
+export class RestStorageAdapter implements StorageAdapter {
+  readonly name = 'rest';
+
+  constructor(private readonly baseUrl: string) {}
+
+  async get<T>(collection: string, key: string): Promise<T | null> {
+    const response = await fetch(this.url(collection, key));
+    if (response.status === 404) return null;
+    return this.parse<T>(response);
+  }
+
+  async getAll<T>(collection: string): Promise<T[]> {
+    return this.parse<T[]>(await fetch(this.url(collection)));
+  }
+
+  async put<T>(collection: string, key: string, value: T): Promise<void> {
+    await this.parse(await fetch(this.url(collection, key), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(value),
+    }));
+  }
+
+  async remove(collection: string, key: string): Promise<void> {
+    await this.parse(await fetch(this.url(collection, key), { method: 'DELETE' }));
+  }
+
+  async clear(collection: string): Promise<void> {
+    await this.parse(await fetch(this.url(collection), { method: 'DELETE' }));
+  }
+
+  private url(collection: string, key?: string): string {
+    const path = `${this.baseUrl}/storage/${encodeURIComponent(collection)}`;
+    return key === undefined ? path : `${path}/${encodeURIComponent(key)}`;
+  }
+
+  private async parse<T>(response: Response): Promise<T> {
+    if (!response.ok) {
+      throw new Error(`Storage request failed: ${response.status} ${response.statusText}`);
+    }
+    const text = await response.text();
+    return (text ? JSON.parse(text) : null) as T;
+  }
+}
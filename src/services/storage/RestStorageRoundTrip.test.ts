@@ -0,0 +1,66 @@
+/** @jest-environment node */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { RestStorageAdapter } from './RestStorageAdapter';
+import { Router } from '../../../server/http';
+import { addStorageRoutes, RecordStore } from '../../../server/routes/storage';
+
+// Jest's node environment has no fetch; this covers what the adapter uses
+function nodeFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const request = http.request(url, { method: init.method || 'GET', headers: init.headers as http.OutgoingHttpHeaders }, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', chunk => chunks.push(chunk));
+      response.on('end', () => {
+        const status = response.statusCode || 0;
+        resolve({
+          ok: status >= 200 && status < 300,
+          status,
+          statusText: response.statusMessage || '',
+          text: async () => Buffer.concat(chunks).toString('utf8'),
+        } as Response);
+      });
+    });
+    request.on('error', reject);
+    request.end(init.body as string | undefined);
+  });
+}
+
+const store = new RecordStore();
+let server: http.Server;
+let adapter: RestStorageAdapter;
+
+beforeAll(done => {
+  const router = new Router('/api');
+  addStorageRoutes(router, store);
+  server = http.createServer((req, res) => router.handle(req, res)).listen(0, () => {
+    adapter = new RestStorageAdapter(`http://localhost:${(server.address() as AddressInfo).port}/api`);
+    done();
+  });
+  global.fetch = nodeFetch as typeof fetch;
+});
+
+afterAll(done => {
+  server.close(() => done());
+});
+
+test('records written through the adapter land in the store and read back', async () => {
+  await adapter.put('users', 'email:a@b.c', { id: 'email:a@b.c', events: [] });
+  await adapter.put('users', '0xabc', { id: '0xabc', events: [] });
+  expect(store.get('users', 'email:a@b.c')).toEqual({ id: 'email:a@b.c', events: [] });
+
+  expect(await adapter.get('users', 'email:a@b.c')).toEqual({ id: 'email:a@b.c', events: [] });
+  expect(await adapter.getAll('users')).toHaveLength(2);
+
+  await adapter.remove('users', '0xabc');
+  expect(await adapter.get('users', '0xabc')).toBeNull();
+  expect(store.get('users', '0xabc')).toBeUndefined();
+
+  await adapter.clear('users');
+  expect(await adapter.getAll('users')).toEqual([]);
+});
+
+test('records that are not objects are refused', async () => {
+  await expect(adapter.put('users', '0xabc', 'just a string')).rejects.toThrow('Storage request failed: 400');
+  expect(store.get('users', '0xabc')).toBeUndefined();
+});
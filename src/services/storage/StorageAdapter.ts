@@ -0,0 +1,29 @@
+// Storage backends for persisted game data. Records live in named
+// collections (e.g. "users") and are read and written one at a time, so a
+// change never has to rewrite everything else.
+
+export interface StorageAdapter {
+  readonly name: string;
+  get<T>(collection: string, key: string): Promise<T | null>;
+  getAll<T>(collection: string): Promise<T[]>;
+  put<T>(collection: string, key: string, value: T): Promise<void>;
+  remove(collection: string, key: string): Promise<void>;
+  clear(collection: string): Promise<void>;
+}
+
+export type StorageBackend = 'localStorage' | 'indexedDB' | 'rest';
+
+// Records that couldn't be read are copied here instead of being dropped
+export const BACKUPS = 'backups';
+
+export interface StorageBackup {
+  collection: string;
+  key: string;
+  reason: string;
+  data: unknown;       // The record as it was found (raw text if it didn't parse)
+  backedUpAt: string;
+}
+
+export function backupKey(collection: string, key: string, time: number = Date.now()): string {
+  return `${collection}:${key}:${time}`;
+}
@@ -0,0 +1,29 @@
+import { StorageAdapter, StorageBackend, StorageBackup, BACKUPS, backupKey } from './StorageAdapter';
+import { LocalStorageAdapter } from './LocalStorageAdapter';
+import { IndexedDBAdapter } from './IndexedDBAdapter';
+import { RestStorageAdapter } from './RestStorageAdapter';
+
+export type { StorageAdapter, StorageBackend, StorageBackup };
+export { BACKUPS, backupKey };
+export { LocalStorageAdapter, IndexedDBAdapter, RestStorageAdapter };
+
+// Base URL of the local server; the dev server proxies /api to it
+export const API_URL = process.env.REACT_APP_API_URL || '/api';
+
+// Pick the storage backend from REACT_APP_STORAGE_BACKEND (default: localStorage)
+export function createStorageAdapter(
+  backend: string | undefined = process.env.REACT_APP_STORAGE_BACKEND
+): StorageAdapter {
+  switch (backend as StorageBackend | undefined) {
+    case 'indexedDB':
+      return new IndexedDBAdapter();
+    case 'rest':
+      return new RestStorageAdapter(API_URL);
+    case 'localStorage':
+    case undefined:
+      return new LocalStorageAdapter();
+    default:
+      console.warn(`Unknown storage backend "${backend}", falling back to localStorage`);
+      return new LocalStorageAdapter();
+  }
+}
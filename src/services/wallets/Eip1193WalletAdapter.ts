@@ -0,0 +1,77 @@
+import { hexlify, toUtf8Bytes } from 'ethers';
+import networks from '../../data/networks.json';
+import { Eip1193Provider, WalletAdapter, WalletInfo, WalletWatchHandlers } from './WalletAdapter';
+
+// MetaMask's error code for switching to a chain it doesn't know yet
+const UNRECOGNIZED_CHAIN = 4902;
+
+// Any injected Ethereum wallet: MetaMask, Rabby, Coinbase Wallet, ...
+export class Eip1193WalletAdapter implements WalletAdapter {
+  constructor(readonly info: WalletInfo, readonly provider: Eip1193Provider) {}
+
+  async connect(): Promise<string> {
+    const account = firstAccount(await this.provider.request({ method: 'eth_requestAccounts', params: [] }));
+    if (!account) throw new Error(`No account selected in ${this.info.name}`);
+    return account.toLowerCase();
+  }
+
+  async signMessage(address: string, message: string): Promise<string> {
+    const signature = await this.provider.request({
+      method: 'personal_sign',
+      params: [hexlify(toUtf8Bytes(message)), address],
+    });
+    if (typeof signature !== 'string') throw new Error(`${this.info.name} returned no signature`);
+    return signature;
+  }
+
+  watch(handlers: WalletWatchHandlers): () => void {
+    const onAccounts = (accounts: unknown) => handlers.onAccount(firstAccount(accounts));
+    const onChain = (chainId: unknown) => {
+      if (typeof chainId === 'string') handlers.onChain?.(chainId);
+    };
+    const onDisconnect = () => handlers.onDisconnect();
+    this.provider.on('accountsChanged', onAccounts);
+    this.provider.on('chainChanged', onChain);
+    this.provider.on('disconnect', onDisconnect);
+    return () => {
+      this.provider.removeListener('accountsChanged', onAccounts);
+      this.provider.removeListener('chainChanged', onChain);
+      this.provider.removeListener('disconnect', onDisconnect);
+    };
+  }
+
+  async getChainId(): Promise<string> {
+    const chainId = await this.provider.request({ method: 'eth_chainId' });
+    if (typeof chainId !== 'string') throw new Error(`${this.info.name} returned no chain id`);
+    return chainId;
+  }
+
+  // Switch networks, adding the network first if the wallet doesn't know it
+  // and it's one of ours (src/data/networks.json)
+  async switchChain(chainId: string): Promise<void> {
+    try {
+      await this.provider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId }] });
+    } catch (error) {
+      if (errorCode(error) !== UNRECOGNIZED_CHAIN) throw error;
+      const params = networks.find(network => network.chainId === chainId);
+      if (!params) throw new Error(`${this.info.name} doesn't know network ${chainId} and there are no details to add it`);
+      await this.provider.request({ method: 'wallet_addEthereumChain', params: [params] });
+    }
+  }
+}
+
+// The first account of an eth_accounts style result, or null without one
+function firstAccount(accounts: unknown): string | null {
+  return Array.isArray(accounts) && typeof accounts[0] === 'string' ? accounts[0] : null;
+}
+
+// Wallets put the EIP-1193 error code on the error, or (MetaMask mobile) on
+// the error it wraps
+function errorCode(error: unknown): number | undefined {
+  const withCode = (value: unknown): value is { code?: unknown; data?: { originalError?: unknown } } =>
+    typeof value === 'object' && value !== null;
+  if (!withCode(error)) return undefined;
+  if (typeof error.code === 'number') return error.code;
+  const original = error.data?.originalError;
+  return withCode(original) && typeof original.code === 'number' ? original.code : undefined;
+}
@@ -0,0 +1,31 @@
+import { hexlify } from 'ethers';
+import { PhantomProvider, WalletAdapter, WalletInfo, WalletWatchHandlers } from './WalletAdapter';
+
+export const PHANTOM_INFO: WalletInfo = { id: 'app.phantom.solana', name: 'Phantom', chain: 'solana' };
+
+// Phantom's Solana provider (window.solana)
+export class PhantomWalletAdapter implements WalletAdapter {
+  constructor(readonly provider: PhantomProvider, readonly info: WalletInfo = PHANTOM_INFO) {}
+
+  async connect(): Promise<string> {
+    const response = await this.provider.connect();
+    return response.publicKey.toString();
+  }
+
+  async signMessage(address: string, message: string): Promise<string> {
+    const { signature } = await this.provider.signMessage(new TextEncoder().encode(message), 'utf8');
+    return hexlify(signature);
+  }
+
+  watch(handlers: WalletWatchHandlers): () => void {
+    // Phantom reports the new public key, or null when it's locked or disconnected
+    const onAccount = (publicKey: unknown) => handlers.onAccount(publicKey ? String(publicKey) : null);
+    const onDisconnect = () => handlers.onDisconnect();
+    this.provider.on('accountChanged', onAccount);
+    this.provider.on('disconnect', onDisconnect);
+    return () => {
+      this.provider.removeListener('accountChanged', onAccount);
+      this.provider.removeListener('disconnect', onDisconnect);
+    };
+  }
+}
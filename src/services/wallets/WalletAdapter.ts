@@ -0,0 +1,66 @@
+// One interface for every wallet the game can sign in with. The login screen,
+// account linking, save signing and the wallet session all talk to a
+// WalletAdapter, so supporting another wallet means writing an adapter for it.
+
+export type WalletChain = 'ethereum' | 'solana';
+
+export interface WalletInfo {
+  id: string;      // Stable per wallet, e.g. the EIP-6963 rdns "io.metamask"
+  name: string;
+  icon?: string;   // Data URI
+  chain: WalletChain;
+}
+
+export interface WalletWatchHandlers {
+  onAccount(address: string | null): void;  // null when the wallet is locked or disconnected
+  onChain?(chainId: string): void;
+  onDisconnect(): void;
+}
+
+export interface WalletAdapter {
+  readonly info: WalletInfo;
+  // Ask the wallet for an account; resolves to its address
+  connect(): Promise<string>;
+  // Sign a text message: EIP-191 for Ethereum, ed25519 for Solana. Resolves to the hex signature.
+  signMessage(address: string, message: string): Promise<string>;
+  // Follow account, network and connection changes until the returned function is called
+  watch(handlers: WalletWatchHandlers): () => void;
+  getChainId?(): Promise<string>;
+  switchChain?(chainId: string): Promise<void>;
+}
+
+// Logins are stored by signature scheme, so every Ethereum wallet signs in as
+// "metamask" and every Solana wallet as "phantom" (see SaveFile's expectedSigner)
+export type WalletLoginType = 'metamask' | 'phantom';
+
+export function loginWalletType(chain: WalletChain): WalletLoginType {
+  return chain === 'ethereum' ? 'metamask' : 'phantom';
+}
+
+// Wallet events carry whatever the wallet sends; handlers check it
+export type WalletEventHandler = (...args: unknown[]) => void;
+
+// EIP-1193, the interface of injected Ethereum wallets. Results depend on the
+// method, so callers narrow them.
+export interface Eip1193Provider {
+  isMetaMask?: boolean;
+  request(args: { method: string; params?: unknown[] | object }): Promise<unknown>;
+  on(event: string, handler: WalletEventHandler): void;
+  removeListener(event: string, handler: WalletEventHandler): void;
+}
+
+// The parts of Phantom's Solana provider the game uses
+export interface PhantomProvider {
+  isPhantom?: boolean;
+  connect(): Promise<{ publicKey: { toString(): string } }>;
+  signMessage(message: Uint8Array, encoding: 'utf8'): Promise<{ signature: Uint8Array }>;
+  on(event: string, handler: WalletEventHandler): void;
+  removeListener(event: string, handler: WalletEventHandler): void;
+}
+
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider;
+    solana?: PhantomProvider;
+  }
+}
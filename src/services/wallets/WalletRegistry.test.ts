@@ -0,0 +1,52 @@
+import { Eip1193Provider } from './WalletAdapter';
+import { WalletRegistry } from './WalletRegistry';
+
+function createProvider(isMetaMask = false): Eip1193Provider {
+  return { isMetaMask, request: jest.fn(), on: jest.fn(), removeListener: jest.fn() };
+}
+
+// Installed wallets answer a request by announcing themselves
+function installWallet(name: string, rdns: string, provider: Eip1193Provider): () => void {
+  const announce = () => window.dispatchEvent(new CustomEvent('eip6963:announceProvider', {
+    detail: { info: { uuid: `${rdns}-uuid`, name, icon: 'data:image/svg+xml,<svg/>', rdns }, provider },
+  }));
+  window.addEventListener('eip6963:requestProvider', announce);
+  return () => window.removeEventListener('eip6963:requestProvider', announce);
+}
+
+test('lists every wallet that announces itself', async () => {
+  const uninstall = [
+    installWallet('MetaMask', 'io.metamask', createProvider(true)),
+    installWallet('Rabby Wallet', 'io.rabby', createProvider()),
+  ];
+  const registry = new WalletRegistry(async () => null);
+  const changed = jest.fn();
+  registry.subscribe(changed);
+
+  expect(registry.getWallets().map(wallet => wallet.info)).toEqual([
+    { id: 'io.metamask', name: 'MetaMask', icon: 'data:image/svg+xml,<svg/>', chain: 'ethereum' },
+    { id: 'io.rabby', name: 'Rabby Wallet', icon: 'data:image/svg+xml,<svg/>', chain: 'ethereum' },
+  ]);
+  expect(changed).toHaveBeenCalledTimes(2);
+  uninstall.forEach(remove => remove());
+});
+
+test('falls back to window.ethereum for wallets without EIP-6963', async () => {
+  const announced = createProvider(true);
+  const uninstall = installWallet('MetaMask', 'io.metamask', announced);
+  const legacy = createProvider();
+
+  // The announced wallet isn't listed twice; one that only set window.ethereum is added
+  const registry = new WalletRegistry(async () => announced);
+  registry.subscribe(() => undefined);
+  await Promise.resolve();
+  expect(registry.getWallets().map(wallet => wallet.info.id)).toEqual(['io.metamask']);
+  uninstall();
+
+  const legacyOnly = new WalletRegistry(async () => legacy);
+  legacyOnly.subscribe(() => undefined);
+  await Promise.resolve();
+  expect(legacyOnly.getWallets().map(wallet => wallet.info)).toEqual([
+    { id: 'injected', name: 'Browser Wallet', chain: 'ethereum' },
+  ]);
+});
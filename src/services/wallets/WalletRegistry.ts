@@ -0,0 +1,91 @@
+import detectEthereumProvider from '@metamask/detect-provider';
+import { Eip1193WalletAdapter } from './Eip1193WalletAdapter';
+import { PhantomWalletAdapter } from './PhantomWalletAdapter';
+import { Eip1193Provider, WalletAdapter, WalletChain } from './WalletAdapter';
+
+// Finds the wallets installed in the browser. Ethereum wallets announce
+// themselves through EIP-6963 (https://eips.ethereum.org/EIPS/eip-6963), so
+// several can be installed without fighting over window.ethereum; a wallet
+// that only sets window.ethereum is still picked up, as is Phantom for Solana.
+
+interface Eip6963ProviderDetail {
+  info: { uuid: string; name: string; icon: string; rdns: string };
+  provider: Eip1193Provider;
+}
+
+const ANNOUNCE_EVENT = 'eip6963:announceProvider';
+const REQUEST_EVENT = 'eip6963:requestProvider';
+const LEGACY_ID = 'injected';
+
+export type LegacyDetector = () => Promise<Eip1193Provider | null>;
+
+const detectLegacyProvider: LegacyDetector = () =>
+  detectEthereumProvider<Eip1193Provider>({ silent: true, timeout: 1000 });
+
+export class WalletRegistry {
+  private wallets: WalletAdapter[] = [];
+  private readonly listeners = new Set<() => void>();
+  private started = false;
+
+  constructor(private readonly detectLegacy: LegacyDetector = detectLegacyProvider) {}
+
+  // Listen for announcements and ask the installed wallets to announce themselves
+  start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    window.addEventListener(ANNOUNCE_EVENT, event => {
+      const detail = (event as CustomEvent<Eip6963ProviderDetail>).detail;
+      if (detail?.info && detail.provider) this.announce(detail);
+    });
+    window.dispatchEvent(new Event(REQUEST_EVENT));
+
+    if (window.solana?.isPhantom) this.register(new PhantomWalletAdapter(window.solana));
+
+    this.detectLegacy()
+      .then(provider => {
+        if (provider && !this.wallets.some(wallet => providerOf(wallet) === provider)) {
+          const name = provider.isMetaMask ? 'MetaMask' : 'Browser Wallet';
+          this.register(new Eip1193WalletAdapter({ id: LEGACY_ID, name, chain: 'ethereum' }, provider));
+        }
+      })
+      .catch(error => console.error('Error detecting the browser wallet:', error));
+  }
+
+  // The wallets found so far. The array is replaced whenever one is added.
+  getWallets = (): WalletAdapter[] => this.wallets;
+
+  get(id: string): WalletAdapter | undefined {
+    return this.wallets.find(wallet => wallet.info.id === id);
+  }
+
+  // The wallet to use for `chain` when the player hasn't picked one
+  defaultFor(chain: WalletChain): WalletAdapter | undefined {
+    return this.wallets.find(wallet => wallet.info.chain === chain);
+  }
+
+  // Discovery starts with the first subscriber
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    this.start();
+    return () => this.listeners.delete(listener);
+  };
+
+  // Add a wallet, replacing an earlier one with the same id
+  register(adapter: WalletAdapter): void {
+    const others = this.wallets.filter(wallet => wallet.info.id !== adapter.info.id);
+    const index = this.wallets.findIndex(wallet => wallet.info.id === adapter.info.id);
+    this.wallets = index < 0 ? [...others, adapter] : [...others.slice(0, index), adapter, ...others.slice(index)];
+    this.listeners.forEach(listener => listener());
+  }
+
+  private announce({ info, provider }: Eip6963ProviderDetail): void {
+    // The wallet had been found through window.ethereum before it announced itself
+    this.wallets = this.wallets.filter(wallet => wallet.info.id !== LEGACY_ID || providerOf(wallet) !== provider);
+    this.register(new Eip1193WalletAdapter({ id: info.rdns || info.uuid, name: info.name, icon: info.icon, chain: 'ethereum' }, provider));
+  }
+}
+
+function providerOf(wallet: WalletAdapter): unknown {
+  return wallet instanceof Eip1193WalletAdapter ? wallet.provider : undefined;
+}
@@ -0,0 +1,20 @@
+import { useSyncExternalStore } from 'react';
+import { WalletRegistry } from './WalletRegistry';
+import { WalletAdapter } from './WalletAdapter';
+
+export type {
+  Eip1193Provider, PhantomProvider, WalletAdapter, WalletChain, WalletEventHandler, WalletInfo, WalletLoginType,
+  WalletWatchHandlers,
+} from './WalletAdapter';
+export { loginWalletType } from './WalletAdapter';
+export { Eip1193WalletAdapter } from './Eip1193WalletAdapter';
+export { PhantomWalletAdapter, PHANTOM_INFO } from './PhantomWalletAdapter';
+export { WalletRegistry } from './WalletRegistry';
+export type { LegacyDetector } from './WalletRegistry';
+
+export const walletRegistry = new WalletRegistry();
+
+// The installed wallets; components re-render as more are discovered
+export function useWallets(registry: WalletRegistry = walletRegistry): WalletAdapter[] {
+  return useSyncExternalStore(registry.subscribe, registry.getWallets);
+}
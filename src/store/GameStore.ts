@@ -0,0 +1,50 @@
+import { useSyncExternalStore } from 'react';
+import { GameAction, gameReducer, GameState, initialGameState } from './gameReducer';
+
+// A minimal store around gameReducer. Effects run after each action has been
+// applied, with the state before and after - persistence and logging hook in
+// there instead of being scattered over components.
+
+export type GameEffect = (action: GameAction, next: GameState, previous: GameState, store: GameStore) => void;
+
+export class GameStore {
+  private state: GameState;
+  private readonly listeners = new Set<() => void>();
+
+  constructor(
+    private readonly effects: GameEffect[] = [],
+    initialState: GameState = initialGameState
+  ) {
+    this.state = initialState;
+  }
+
+  getState = (): GameState => this.state;
+
+  dispatch = (action: GameAction): void => {
+    const previous = this.state;
+    this.state = gameReducer(previous, action);
+    if (this.state !== previous) {
+      this.listeners.forEach(listener => listener());
+    }
+    this.effects.forEach(effect => effect(action, this.state, previous, this));
+  };
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+}
+
+// Logs every action with the resulting state, for development builds
+export const logActions: GameEffect = (action, next, previous) => {
+  console.groupCollapsed(`[game] ${action.type}`);
+  console.log('action', action);
+  console.log('before', previous);
+  console.log('after', next);
+  console.groupEnd();
+};
+
+// Re-renders the component whenever the store changes
+export function useGameState(store: GameStore): GameState {
+  return useSyncExternalStore(store.subscribe, store.getState);
+}
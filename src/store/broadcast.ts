@@ -0,0 +1,21 @@
+import { TabSync } from '../services/TabSync';
+import { GameEffect } from './GameStore';
+
+// Tells other tabs on the same account about position and history changes,
+// and when this tab stops playing. Spectators only listen.
+export function broadcastGameState(sync: TabSync): GameEffect {
+  return (action, next, previous) => {
+    if (action.type === 'logout') {
+      if (previous.account && !previous.account.spectating) {
+        sync.post({ type: 'left', accountId: previous.account.id });
+      }
+      return;
+    }
+
+    const account = next.account;
+    if (!account || account.spectating || !next.position) return;
+    if (action.type === 'login' || action.type === 'move' || action.type === 'collect' || action.type === 'historyReplaced') {
+      sync.post({ type: 'state', accountId: account.id, position: next.position, events: next.events });
+    }
+  };
+}
@@ -0,0 +1,61 @@
+import { gameReducer, GameAction, GameState, initialGameState } from './gameReducer';
+import { GameStore } from './GameStore';
+import { selectCanClaim, selectScore } from './selectors';
+import { CollectionEvent, Treasure } from '../types/game';
+
+const treasure: Treasure = { id: 'T1', x: 3, y: 4, emoji: '💎', rarity: 'Rare' };
+const event: CollectionEvent = {
+  id: 'e1', treasureId: 'T1', treasure, x: 3, y: 4, points: 200, sessionId: 's1', collectedAt: '2024-01-01T00:00:00.000Z',
+};
+const login: GameAction = {
+  type: 'login',
+  account: { id: '0xabc', walletType: 'metamask', identities: [] },
+  position: { x: 1, y: 1 },
+  events: [],
+};
+
+function run(...actions: GameAction[]): GameState {
+  return actions.reduce(gameReducer, initialGameState);
+}
+
+test('collecting a treasure records the event and marks the tile opened', () => {
+  const state = run(login, { type: 'claimStarted', treasureId: 'T1' }, { type: 'collect', treasure, event, events: [event] });
+  expect(selectScore(state)).toBe(200);
+  expect(state.openedTreasures['3-4']).toBe(true);
+  expect(state.pendingClaims).toEqual({});
+});
+
+test('a treasure cannot be claimed twice, or while a claim is in flight', () => {
+  const loggedIn = run(login);
+  expect(selectCanClaim(loggedIn, treasure)).toBe(true);
+  const pending = gameReducer(loggedIn, { type: 'claimStarted', treasureId: 'T1' });
+  expect(selectCanClaim(pending, treasure)).toBe(false);
+  expect(selectCanClaim(gameReducer(pending, { type: 'claimFailed', treasureId: 'T1' }), treasure)).toBe(true);
+  expect(selectCanClaim(gameReducer(pending, { type: 'collect', treasure, event, events: [event] }), treasure)).toBe(false);
+});
+
+test('logging in restores the history and logging out clears everything', () => {
+  const state = run({ ...login, events: [event] });
+  expect(state.openedTreasures).toEqual({ '3-4': true });
+  expect(gameReducer(state, { type: 'logout' })).toEqual(initialGameState);
+});
+
+test('spectators follow the other tab, players only take its history', () => {
+  const state = run(login, { type: 'remoteState', events: [event] });
+  expect(state.position).toEqual({ x: 1, y: 1 });
+  expect(state.openedTreasures['3-4']).toBe(true);
+  expect(gameReducer(state, { type: 'remoteState', events: [event], position: { x: 3, y: 4 } }).position).toEqual({ x: 3, y: 4 });
+});
+
+test('effects see each action after it is applied', () => {
+  const seen: string[] = [];
+  const store = new GameStore([(action, next) => seen.push(`${action.type}:${next.position?.x}`)]);
+  const listener = jest.fn();
+  store.subscribe(listener);
+
+  store.dispatch(login);
+  store.dispatch({ type: 'move', position: { x: 2, y: 1 } });
+  expect(seen).toEqual(['login:1', 'move:2']);
+  expect(listener).toHaveBeenCalledTimes(2);
+  expect(store.getState().position).toEqual({ x: 2, y: 1 });
+});
@@ -0,0 +1,123 @@
+import { CollectionEvent, LinkedIdentity, Treasure, User } from '../types/game';
+import { TilePosition } from '../services/Pathfinder';
+
+// The game state shared by the whole app. Everything the player owns is
+// derived from `events` (see selectors.ts); the reducer only records what
+// happened.
+
+export type WalletType = 'metamask' | 'phantom' | 'email' | 'other';
+
+export interface Account {
+  id: string;                    // The account, which may differ from the login for linked identities
+  walletType: WalletType;        // How the player signed in this time
+  identities: LinkedIdentity[];
+  spectating?: boolean;          // Watching another tab play: nothing is sent or stored
+}
+
+export interface GameState {
+  account: Account | null;
+  profile: User | null;                           // The stored user record
+  position: TilePosition | null;
+  events: CollectionEvent[];
+  openedTreasures: {[tileKey: string]: boolean};  // Keyed "x-y"
+  pendingClaims: {[treasureId: string]: boolean}; // Claims sent but not yet answered
+}
+
+export type GameAction =
+  | { type: 'login'; account: Account; position: TilePosition; events: CollectionEvent[] }
+  | { type: 'logout' }
+  | { type: 'profileLoaded'; profile: User }
+  | { type: 'move'; position: TilePosition }
+  | { type: 'open'; treasure: Treasure }
+  | { type: 'claimStarted'; treasureId: string }
+  | { type: 'claimFailed'; treasureId: string }
+  | { type: 'collect'; treasure: Treasure; event: CollectionEvent; events: CollectionEvent[] }
+  // The history changed wholesale: a save file import or a linked account
+  | { type: 'historyReplaced'; events: CollectionEvent[]; identities?: LinkedIdentity[] }
+  // Another tab on the same account changed; spectators follow its position too
+  | { type: 'remoteState'; events: CollectionEvent[]; position?: TilePosition };
+
+export const initialGameState: GameState = {
+  account: null,
+  profile: null,
+  position: null,
+  events: [],
+  openedTreasures: {},
+  pendingClaims: {},
+};
+
+export function tileKey(tile: TilePosition): string {
+  return `${tile.x}-${tile.y}`;
+}
+
+// Treasures the player already owns are marked opened
+function openedFrom(events: CollectionEvent[]): {[tileKey: string]: boolean} {
+  const opened: {[tileKey: string]: boolean} = {};
+  events.forEach(event => {
+    opened[tileKey(event.treasure)] = true;
+  });
+  return opened;
+}
+
+function without(claims: {[treasureId: string]: boolean}, treasureId: string): {[treasureId: string]: boolean} {
+  const { [treasureId]: removed, ...rest } = claims;
+  return rest;
+}
+
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case 'login':
+      return {
+        ...initialGameState,
+        account: action.account,
+        position: action.position,
+        events: action.events,
+        openedTreasures: openedFrom(action.events),
+      };
+
+    case 'logout':
+      return initialGameState;
+
+    case 'profileLoaded':
+      return { ...state, profile: action.profile };
+
+    case 'move':
+      return { ...state, position: { x: action.position.x, y: action.position.y } };
+
+    case 'open':
+      return { ...state, openedTreasures: { ...state.openedTreasures, [tileKey(action.treasure)]: true } };
+
+    case 'claimStarted':
+      return { ...state, pendingClaims: { ...state.pendingClaims, [action.treasureId]: true } };
+
+    case 'claimFailed':
+      return { ...state, pendingClaims: without(state.pendingClaims, action.treasureId) };
+
+    case 'collect':
+      return {
+        ...state,
+        events: action.events,
+        openedTreasures: { ...state.openedTreasures, [tileKey(action.treasure)]: true },
+        pendingClaims: without(state.pendingClaims, action.event.treasureId),
+      };
+
+    case 'historyReplaced':
+      return {
+        ...state,
+        account: state.account && action.identities ? { ...state.account, identities: action.identities } : state.account,
+        events: action.events,
+        openedTreasures: openedFrom(action.events),
+      };
+
+    case 'remoteState':
+      return {
+        ...state,
+        position: action.position ? { x: action.position.x, y: action.position.y } : state.position,
+        events: action.events,
+        openedTreasures: { ...state.openedTreasures, ...openedFrom(action.events) },
+      };
+
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,21 @@
+import { userService } from '../services/UserService';
+import { tabSync } from '../services/TabSync';
+import { GameStore, GameEffect, logActions, useGameState } from './GameStore';
+import { persistGameState } from './persistence';
+import { broadcastGameState } from './broadcast';
+
+export type { GameEffect };
+export type { Account, GameAction, GameState, WalletType } from './gameReducer';
+export { GameStore, logActions, useGameState };
+export { gameReducer, initialGameState, tileKey } from './gameReducer';
+export * from './selectors';
+
+// The app's store: persisted through userService and shared with other tabs,
+// with action logging in development
+export function createGameStore(): GameStore {
+  const effects: GameEffect[] = [persistGameState(userService), broadcastGameState(tabSync)];
+  if (process.env.NODE_ENV === 'development') {
+    effects.push(logActions);
+  }
+  return new GameStore(effects);
+}
@@ -0,0 +1,54 @@
+import { UserService } from '../services/UserService';
+import { User } from '../types/game';
+import { GameEffect, GameStore } from './GameStore';
+
+// Keeps the stored user record in step with the game state. The server holds
+// the authoritative history; this is the local copy the profile, save files
+// and exploration hang off.
+export function persistGameState(users: UserService): GameEffect {
+  // Store the record and hand it back, unless the player has logged out meanwhile
+  const save = (store: GameStore, accountId: string, write: () => Promise<User | null>) => {
+    write()
+      .then(profile => {
+        if (profile && store.getState().account?.id === accountId) {
+          store.dispatch({ type: 'profileLoaded', profile });
+        }
+      })
+      .catch(error => console.error('Error saving user data:', error));
+  };
+
+  return (action, next, previous, store) => {
+    const account = next.account;
+    if (!account || account.spectating) return;
+
+    switch (action.type) {
+      case 'login':
+        // Load the profile, creating it for new players
+        save(store, account.id, async () => {
+          const existing = await users.getUserById(account.id);
+          if (existing) return existing;
+          const isEmail = account.id.startsWith('email:');
+          return users.saveUser({
+            id: account.id,
+            walletAddress: !isEmail ? account.id : undefined,
+            email: isEmail ? account.id.replace('email:', '') : undefined,
+            walletType: account.walletType,
+            identities: account.identities,
+          });
+        });
+        break;
+
+      case 'collect':
+        save(store, account.id, () => users.saveEvents(account.id, next.events));
+        break;
+
+      case 'historyReplaced':
+        save(store, account.id, () => users.saveUser({
+          id: account.id,
+          events: next.events,
+          identities: account.identities,
+        }));
+        break;
+    }
+  };
+}
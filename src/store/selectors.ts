@@ -0,0 +1,26 @@
+import { Treasure } from '../types/game';
+import { getCollectedTreasures, getScore } from '../services/CollectionHistory';
+import { getItemsFromTreasures } from '../services/TerrainRules';
+import { GameState, tileKey } from './gameReducer';
+
+// Derived values. These build new arrays, so components memoize them on
+// `state.events` rather than selecting them on every render.
+
+export function selectScore(state: GameState): number {
+  return getScore(state.events);
+}
+
+export function selectCollectedTreasures(state: GameState): Treasure[] {
+  return getCollectedTreasures(state.events);
+}
+
+// Items unlocked by collected treasures (e.g. a boat for crossing water)
+export function selectPlayerItems(state: GameState): string[] {
+  return getItemsFromTreasures(selectCollectedTreasures(state));
+}
+
+// A treasure can be claimed once, and not again while a claim is in flight
+export function selectCanClaim(state: GameState, treasure: Treasure): boolean {
+  if (!state.account || !treasure.id) return false;
+  return !state.openedTreasures[tileKey(treasure)] && !state.pendingClaims[treasure.id];
+}
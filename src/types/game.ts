@@ -0,0 +1,58 @@
+// Game types shared by the client, the services and the local server
+
+export interface Treasure {
+  x: number;
+  y: number;
+  emoji: string;
+  id?: string;
+  name?: string;
+  description?: string;
+  rarity?: string;
+  biome?: string;
+  visibility?: 'all' | 'detail';
+  grantsItem?: string;
+  expiresAt?: number;  // Spawned treasures despawn at this time (ms)
+}
+
+// One part of a score award, e.g. the base value or a streak bonus
+export interface ScoreLine {
+  kind: 'base' | 'biome' | 'firstFinder' | 'streak' | 'combo' | 'event';
+  label: string;
+  points: number;
+}
+
+// One treasure claim, as recorded by the game server
+export interface CollectionEvent {
+  id: string;
+  treasureId: string;
+  treasure: Treasure;
+  x: number;
+  y: number;
+  points: number;
+  breakdown?: ScoreLine[];  // How `points` was calculated (missing on older events)
+  sessionId: string;
+  collectedAt: string;  // ISO timestamp
+  proof?: string;       // Server signature, so the server can accept the event back from a save file
+}
+
+// Another login attached to an account. Signing in with it opens the account.
+export interface LinkedIdentity {
+  type: 'metamask' | 'phantom' | 'email' | 'other';
+  id: string;            // The id the login produces: a wallet address or "email:<address>"
+  linkedAt: string;
+}
+
+// Stored user record. Score and collected treasures are derived from
+// `events` (see CollectionHistory.ts).
+export interface User {
+  version: number;       // Schema version, see UserMigrations.ts
+  id: string;
+  walletAddress?: string;
+  email?: string;
+  walletType?: 'metamask' | 'phantom' | 'email' | 'other';
+  events: CollectionEvent[];
+  lastLogin: string;
+  exploration?: string;  // Run-length encoded fog-of-war bitmap
+  position?: { x: number; y: number };  // Last position the game server accepted
+  identities?: LinkedIdentity[];         // Logins linked to this account besides `id`
+}